@@ -1,9 +1,16 @@
 import { Request, Response } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { parseLabFile } from '../utils/labFileParser'; // Import the parser
-import { decompressArchive, uploadFileToSupabaseStorage } from '../utils/archiveHandler'; // Import the file handler
-import { FilePasswordService } from '../services/filePasswordService'; // Import the password service
-import * as path from 'path'; // To handle file paths
+import { promises as fs } from 'fs';
+import { ParseMode } from '../utils/labFileParser'; // Import the parsing modes
+import {
+  getArchiveExtension,
+  PLAIN_RESULT_EXTENSIONS,
+  SUPPORTED_ARCHIVE_EXTENSIONS,
+} from '../utils/archiveHandler'; // Import the file handler
+import { enqueueLabImport } from '../services/importJobService'; // Import the import job queue
+import { ImportJobWorker } from '../services/importJobWorker'; // Import the background import worker
+import { FileStorage } from '../services/fileStorage'; // Import the storage backend interface
+import { serializeLabFile, LabRecordBlock } from '../utils/labFileSerializer'; // Import the .lab serializer
 
 // --- Interfaces for data structure ---
 
@@ -17,6 +24,13 @@ interface ResultInput {
   unit: string;
   code: string;
   result: string;
+  result_text?: string | null; // Free-text lines attached to the result (L2)
+  section?: string | null; // Section header the result appeared under (L4)
+  result_numeric?: number | null; // Numeric value parsed from 'result'
+  result_comparator?: string | null; // '<', '<=', '>' or '>=' when the result is a bound
+  reference_low?: number | null; // Lower bound parsed from 'reference_value'
+  reference_high?: number | null; // Upper bound parsed from 'reference_value'
+  abnormal_flag?: string | null; // 'normal', 'low', 'high' or 'critical'
 }
 
 // Interface for the administrative header in the request (includes its results)
@@ -27,13 +41,15 @@ interface AdministrativeInput {
   surname?: string | null;
   firstname?: string | null;
   sex?: string | null;
-  date_of_birth?: string | null;
+  date_of_birth?: string | null; // ISO date (yyyy-mm-dd)
+  date_of_birth_raw?: string | null; // Original ddmmyyyy value from the lab file
   external_identifier?: string | null;
   street_number?: string | null;
   postal_code?: string | null;
   city?: string | null;
   prescribing_doctor?: string | null;
-  date_request?: string | null;
+  date_request?: string | null; // ISO date (yyyy-mm-dd)
+  date_request_raw?: string | null; // Original ddmmyyyy value from the lab file
   empty_field?: string | null; // 'vide' field in the document
   protocol_type?: string | null;
   cover?: string | null;
@@ -43,9 +59,143 @@ interface AdministrativeInput {
   file_name?: string | null; // This will be added by us when saving the file
   status?: number | null; // The document does not define it, but your table does
   zip_uploaded?: string | null; // NEW: Name of the uploaded ZIP file
+  import_id?: string | null; // Import registry entry (labimport) the record came from
+  comment?: string | null; // Protocol comment lines (L3)
+  trailer?: string | null; // Protocol trailer text (L9)
+  unparsed_lines?: string | null; // Raw lines with an unknown record type
+  file_encoding?: string | null; // Character encoding used to decode the .lab file
+  source_format?: string | null; // Format of the imported file: 'lab' or 'hl7'
   results?: ResultInput[]; // Array of result details (optional for file upload)
 }
 
+// --- Helpers ---
+
+/**
+ * Returns the uploaded archives, whether they came in the 'file' field or the 'files' field.
+ */
+const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (Array.isArray(req.files)) return req.files;
+  const fields = req.files || {};
+  return [...(req.file ? [req.file] : []), ...(fields.file || []), ...(fields.files || [])];
+};
+
+/**
+ * Validates one uploaded archive and queues it for import.
+ * Never throws: problems are returned as the status code and body to answer with.
+ */
+const queueUploadedArchive = async (
+  supabase: SupabaseClient,
+  fileStorage: FileStorage,
+  uploadedFile: Express.Multer.File,
+  options: { mode: ParseMode; invoicedetailId: string | null; uploadedBy: string | null }
+): Promise<{ result: 'queued' | 'duplicate' | 'pending' | 'rejected' | 'error'; httpStatus: number; body: any }> => {
+  const fileExtension = getArchiveExtension(uploadedFile.originalname); // Recognises double extensions such as .tar.gz
+  const allowedExtensions = [...SUPPORTED_ARCHIVE_EXTENSIONS, ...PLAIN_RESULT_EXTENSIONS];
+
+  if (!allowedExtensions.includes(fileExtension)) {
+    return {
+      result: 'rejected',
+      httpStatus: 400,
+      body: { error: `Unsupported file format: ${fileExtension}. Only ${allowedExtensions.join(', ')} are allowed.` },
+    };
+  }
+
+  const zipFileName = uploadedFile.originalname; // Original name of the uploaded archive (or plain result file)
+
+  // Keep the upload in storage so the job survives a restart, then queue it (unless its content is a duplicate)
+  let enqueued;
+  try {
+    enqueued = await enqueueLabImport(supabase, fileStorage, {
+      archiveName: zipFileName,
+      filePath: uploadedFile.path, // Temporary file written by multer
+      mode: options.mode,
+      invoicedetailId: options.invoicedetailId,
+      uploadedBy: options.uploadedBy,
+      contentType: uploadedFile.mimetype,
+    });
+  } catch (enqueueError: any) {
+    console.error(`Error queuing the import of ${zipFileName}:`, enqueueError.message);
+    return { result: 'error', httpStatus: 500, body: { error: 'Internal error queuing the import.' } };
+  }
+
+  if (enqueued.status === 'duplicate') {
+    return {
+      result: 'duplicate',
+      httpStatus: 409,
+      body: {
+        error: `The file "${zipFileName}" has already been imported as "${enqueued.labImport.archive_name}".`,
+        duplicateOfImportId: enqueued.labImport.import_id,
+        duplicateOfArchiveName: enqueued.labImport.archive_name,
+        importedAt: enqueued.labImport.created_at,
+      },
+    };
+  }
+
+  if (enqueued.status === 'pending') {
+    return {
+      result: 'pending',
+      httpStatus: 409,
+      body: {
+        error: `The file "${zipFileName}" is already being imported as "${enqueued.job.archive_name}".`,
+        jobId: enqueued.job.job_id,
+      },
+    };
+  }
+
+  return {
+    result: 'queued',
+    httpStatus: 202,
+    body: {
+      message: 'LAB file queued for import.',
+      jobId: enqueued.jobId,
+      statusUrl: `/import-jobs/${enqueued.jobId}`,
+    },
+  };
+};
+
+/**
+ * Loads active administrative records with their active results, in the order of the given IDs.
+ * Returns the IDs that were not found so the caller can answer with a 404.
+ */
+const fetchLabRecordBlocks = async (supabase: SupabaseClient, administrativeIds: string[]) => {
+  const { data: admins, error: adminError } = await supabase
+    .from('administrative')
+    .select('*')
+    .in('administrative_id', administrativeIds)
+    .eq('is_active', true);
+
+  if (adminError) {
+    throw new Error(`Error getting administrative records: ${adminError.message}`);
+  }
+
+  const { data: results, error: resultError } = await supabase
+    .from('result')
+    .select('*')
+    .in('administrative_id', administrativeIds)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+
+  if (resultError) {
+    throw new Error(`Error getting result details: ${resultError.message}`);
+  }
+
+  const blocks: LabRecordBlock[] = [];
+  const missingIds: string[] = [];
+  for (const administrativeId of administrativeIds) {
+    const administrative = (admins || []).find(admin => admin.administrative_id === administrativeId);
+    if (!administrative) {
+      missingIds.push(administrativeId);
+      continue;
+    }
+    blocks.push({
+      administrative,
+      results: (results || []).filter(result => result.administrative_id === administrativeId),
+    });
+  }
+
+  return { blocks, missingIds };
+};
+
 // --- Controller Functions ---
 
 // 1. Create a new Administrative Record with its Results
@@ -143,12 +293,18 @@ export const getAdministrativeResultsById = (supabase: SupabaseClient) => async
       return res.status(400).json({ error: 'Administrative ID is required.' });
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('result')
       .select('*')
       .eq('administrative_id', administrativeId)
-      .eq('is_active', true) // Only active details
-      .order('created_at', { ascending: true }); // Order by creation date
+      .eq('is_active', true); // Only active details
+
+    // Optional filter: ?abnormal=true returns only low, high or critical results
+    if (req.query.abnormal === 'true') {
+      query = query.in('abnormal_flag', ['low', 'high', 'critical']);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true }); // Order by creation date
 
     if (error) {
       console.error('Error getting administrative record result details:', error);
@@ -205,167 +361,105 @@ export const deleteAdministrative = (supabase: SupabaseClient) => async (req: Re
   }
 };
 
-// 5. Upload and Process Compressed LAB File
-export const uploadLabFile = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+// 5. Upload Compressed LAB Files for Import
+// Each archive is validated and queued on its own; the import job worker decompresses and imports it
+// in the background, so a bad archive never affects the others. Progress is available at GET /import-jobs/:jobId
+// Accepts a single archive in 'file' or several in 'files'.
+export const uploadLabFile = (supabase: SupabaseClient, fileStorage: FileStorage, importJobWorker: ImportJobWorker) => async (req: Request, res: Response) => {
+  const uploadedFiles = getUploadedFiles(req);
   try {
-    const uploadedFile = req.file;
     const invoicedetail_id: string | null = req.body.invoicedetail_id || null;
+    const mode: ParseMode = req.body.mode || req.query.mode || 'lenient'; // strict rejects malformed .lab files as a whole
 
-    if (!uploadedFile) {
+    if (uploadedFiles.length === 0) {
       return res.status(400).json({ error: 'No file has been uploaded.' });
     }
 
-    const fileExtension = path.extname(uploadedFile.originalname).toLowerCase();
-    const allowedExtensions = ['.zip'];
-
-    if (!allowedExtensions.includes(fileExtension)) {
-      return res.status(400).json({ error: `Unsupported file format: ${fileExtension}. Only ${allowedExtensions.join(', ')} are allowed.` });
+    if (mode !== 'strict' && mode !== 'lenient') {
+      return res.status(400).json({ error: `Invalid parsing mode: ${mode}. Use "strict" or "lenient".` });
     }
 
-    const zipFileName = uploadedFile.originalname; // Original name of the ZIP file
-
-    // --- NEW VALIDATION: Check if the ZIP file has already been uploaded and is active ---
-    const { data: existingZipRecords, error: zipCheckError } = await supabase
-      .from('administrative')
-      .select('administrative_id')
-      .eq('zip_uploaded', zipFileName)
-      .eq('is_active', true);
+    const options = { mode, invoicedetailId: invoicedetail_id, uploadedBy: req.user?.userId || null };
 
-    if (zipCheckError) {
-      console.error('Error checking for duplicate ZIP:', zipCheckError);
-      return res.status(500).json({ error: 'Internal error checking for duplicate ZIP files.' });
+    // A single archive keeps its own status code (400 unsupported, 409 duplicate, 202 queued)
+    if (uploadedFiles.length === 1) {
+      const outcome = await queueUploadedArchive(supabase, fileStorage, uploadedFiles[0], options);
+      if (outcome.result === 'queued') importJobWorker.wake();
+      return res.status(outcome.httpStatus).json(outcome.body);
     }
 
-    if (existingZipRecords && existingZipRecords.length > 0) {
-      return res.status(409).json({ error: `The ZIP file "${zipFileName}" has already been uploaded and is active.` });
+    // Several archives: one summary entry per archive
+    const archives = [];
+    for (const uploadedFile of uploadedFiles) {
+      const outcome = await queueUploadedArchive(supabase, fileStorage, uploadedFile, options);
+      archives.push({ fileName: uploadedFile.originalname, result: outcome.result, ...outcome.body });
     }
-    // --- END NEW VALIDATION ---
 
-    let decompressedFiles: { path: string; data: Buffer }[] = [];
-    let passwordsToTry: string[] = [];
+    const queuedCount = archives.filter(archive => archive.result === 'queued').length;
+    if (queuedCount > 0) importJobWorker.wake();
+
+    res.status(queuedCount > 0 ? 202 : 200).json({
+      message: `${queuedCount} of ${archives.length} LAB files queued for import.`,
+      archives: archives,
+    });
+
+  } catch (err: any) {
+    console.error('Exception in uploadLabFile:', err);
+    res.status(500).json({ error: 'Internal server error processing the LAB file.' });
+  } finally {
+    // Multer's temporary files are no longer needed: queued archives have their own copy in storage
+    await Promise.all(uploadedFiles.map(uploadedFile => fs.rm(uploadedFile.path, { force: true })));
+  }
+};
 
-    try {
-      passwordsToTry = await FilePasswordService.getAllActivePasswords(supabase);
-      passwordsToTry.unshift(''); // Add an empty string to try without password first
 
-      decompressedFiles = await decompressArchive(uploadedFile.buffer, fileExtension, passwordsToTry);
+// 6. Export an Administrative Record and its Results as a .lab File
+export const exportAdministrativeLabFile = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { administrativeId } = req.params;
 
-    } catch (decompressionError: any) {
-      console.error('Error during decompression:', decompressionError.message);
-      return res.status(400).json({ error: `Error decompressing the file: ${decompressionError.message}. Verify password or format.` });
+    if (!administrativeId) {
+      return res.status(400).json({ error: 'Administrative ID is required.' });
     }
 
-    const processedRecords: { administrativeId: string; labFileName: string; storageUrl: string; }[] = [];
-    const errors: string[] = [];
-    const skippedFiles: string[] = []; // To record skipped .lab files
+    const { blocks, missingIds } = await fetchLabRecordBlocks(supabase, [administrativeId]);
 
-    // 3. Process each decompressed .lab file
-    for (const file of decompressedFiles) {
-      if (path.extname(file.path).toLowerCase() !== '.lab') {
-        console.warn(`File ignored (not .lab): ${file.path}`);
-        continue;
-      }
+    if (missingIds.length > 0) {
+      return res.status(404).json({ error: 'Administrative record not found.' });
+    }
 
-      const labFileName = path.basename(file.path);
-      let storageUrl: string | null = null;
-      let parsedBlocks;
-
-      // --- NEW VALIDATION: Check if the .lab file content already exists and is active ---
-      // Note: This validation assumes 'file_name' in DB stores the full storage URL.
-      // We need to query by the original lab file name from the zip.
-      // A more robust solution might involve hashing the file content or storing just the labFileName.
-      // For now, we'll query by the base name of the lab file.
-      const { data: existingLabFileRecords, error: labFileCheckError } = await supabase
-        .from('administrative')
-        .select('administrative_id')
-        .ilike('file_name', `%${labFileName}`) // Use ilike for case-insensitive and partial match on URL
-        .eq('is_active', true);
-
-      if (labFileCheckError) {
-        console.error(`Error checking for duplicate .lab file for ${labFileName}:`, labFileCheckError);
-        errors.push(`Internal error checking for duplicate for ${labFileName}.`);
-        continue;
-      }
+    const fileName = `${blocks[0].administrative.ident_protocol || administrativeId}.lab`;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).send(serializeLabFile(blocks));
 
-      if (existingLabFileRecords && existingLabFileRecords.length > 0) {
-        skippedFiles.push(labFileName);
-        console.warn(`The .lab file "${labFileName}" already exists and is active. Insertion will be skipped.`);
-        continue; // Skip insertion if it already exists
-      }
-      // --- END NEW VALIDATION ---
+  } catch (err: any) {
+    console.error('Exception in exportAdministrativeLabFile:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
 
-      try {
-        // Upload the original .lab file to Supabase Storage
-        const storagePath = `lab_files/${Date.now()}_${labFileName}`; // Unique path to avoid direct name collisions in storage
-        storageUrl = await uploadFileToSupabaseStorage(supabase, 'lab-files', storagePath, file.data, 'text/plain');
+// 7. Export several Administrative Records into a single .lab File
+export const exportAdministrativesLabFile = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { administrativeIds }: { administrativeIds: string[] } = req.body;
 
-        // Parse the content of the .lab file
-        const fileContent = file.data.toString('utf8');
-        parsedBlocks = parseLabFile(fileContent);
+    if (!Array.isArray(administrativeIds) || administrativeIds.length === 0) {
+      return res.status(400).json({ error: 'At least one administrative ID is required.' });
+    }
 
-      } catch (parseOrStorageError: any) {
-        console.error(`Error processing file ${labFileName}:`, parseOrStorageError.message);
-        errors.push(`Error processing ${labFileName}: ${parseOrStorageError.message}`);
-        continue;
-      }
+    const { blocks, missingIds } = await fetchLabRecordBlocks(supabase, administrativeIds);
 
-      // 4. Insert data into administrative and result tables
-      for (const block of parsedBlocks) {
-        try {
-          // Prepare administrative data
-          const adminToInsert = {
-            ...block.administrative,
-            invoicedetail_id: invoicedetail_id,
-            file_name: storageUrl, // Save the LAB file URL in the administrative header
-            zip_uploaded: zipFileName, // NEW: Save the name of the uploaded ZIP
-            status: block.administrative.status || 0,
-          };
-
-          const { data: adminData, error: adminInsertError } = await supabase
-            .from('administrative')
-            .insert(adminToInsert)
-            .select('administrative_id');
-
-          if (adminInsertError || !adminData || adminData.length === 0) {
-            throw new Error(`Error inserting administrative record: ${adminInsertError?.message}`);
-          }
-
-          const administrative_id = adminData[0].administrative_id;
-
-          // Prepare and insert results
-          const resultsToInsert = block.results.map(result => ({
-            ...result,
-            administrative_id: administrative_id,
-          }));
-
-          const { error: resultInsertError } = await supabase
-            .from('result')
-            .insert(resultsToInsert);
-
-          if (resultInsertError) {
-            throw new Error(`Error inserting results: ${resultInsertError.message}`);
-          }
-
-          processedRecords.push({ administrativeId: administrative_id, labFileName: labFileName, storageUrl: storageUrl });
-
-        } catch (dbError: any) {
-          console.error(`Error inserting DB data for ${labFileName}:`, dbError.message);
-          errors.push(`Error inserting data for ${labFileName} in DB: ${dbError.message}`);
-        }
-      }
+    if (missingIds.length > 0) {
+      return res.status(404).json({ error: `Administrative records not found: ${missingIds.join(', ')}.` });
     }
 
-    res.status(200).json({
-      message: 'LAB file processing completed.',
-      processedFilesCount: processedRecords.length,
-      totalErrors: errors.length,
-      skippedFiles: skippedFiles, // NEW: List of skipped .lab files
-      processedRecords: processedRecords,
-      errors: errors,
-    });
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="export_${Date.now()}.lab"`);
+    res.status(200).send(serializeLabFile(blocks));
 
   } catch (err: any) {
-    console.error('Exception in uploadLabFile:', err);
-    res.status(500).json({ error: 'Internal server error processing the LAB file.' });
+    console.error('Exception in exportAdministrativesLabFile:', err);
+    res.status(500).json({ error: 'Internal server error.' });
   }
 };
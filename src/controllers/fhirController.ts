@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildFhirBundle,
+  FhirAdministrativeRow,
+  FhirResource,
+  FhirResultRow,
+  getExternalIdentifierPattern,
+  getFhirPatientId,
+  toFhirResources,
+} from '../utils/fhirMapper';
+
+// FHIR responses use their own media type
+const FHIR_CONTENT_TYPE = 'application/fhir+json; charset=utf-8';
+
+/**
+ * Builds the FHIR base URL from the incoming request (used for Bundle fullUrls).
+ */
+const getFhirBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}/fhir`;
+
+/**
+ * Loads the active results of the given administrative records, grouped by administrative_id.
+ */
+const fetchResultsByAdministrative = async (supabase: SupabaseClient, administrativeIds: string[]) => {
+  const { data, error } = await supabase
+    .from('result')
+    .select('*')
+    .in('administrative_id', administrativeIds)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+    .returns<FhirResultRow[]>();
+
+  if (error) {
+    throw new Error(`Error getting result details: ${error.message}`);
+  }
+
+  const resultsByAdministrative: { [administrativeId: string]: FhirResultRow[] } = {};
+  for (const result of data || []) {
+    (resultsByAdministrative[result.administrative_id] ||= []).push(result);
+  }
+  return resultsByAdministrative;
+};
+
+/**
+ * Endpoint to search DiagnosticReports of a patient (FHIR searchset Bundle).
+ * The patient is given either by its Patient id (?patient=<id> or ?patient=Patient/<id>, the id
+ * returned in the Patient resources) or by its identifier token (?patient.identifier=<system>|<value>
+ * or ?patient.identifier=<value>, the A2 external identifier as received).
+ * Each report is returned together with its Patient, ServiceRequest and Observations.
+ * @param supabase Supabase client
+ */
+export const searchDiagnosticReports = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const patientParam = typeof req.query.patient === 'string' ? req.query.patient.replace(/^Patient\//, '') : '';
+    const identifierParam = typeof req.query['patient.identifier'] === 'string'
+      ? req.query['patient.identifier'].replace(/^[^|]*\|/, '') // The system is optional
+      : '';
+
+    // 1. Input validation
+    if (!patientParam && !identifierParam) {
+      return res.status(400).json({ error: 'The patient or patient.identifier parameter is mandatory.' });
+    }
+
+    // 2. Find the active administrative records of the patient.
+    // A Patient id is not always the external identifier (see getFhirPatientId): the candidates are
+    // found with a LIKE pattern and kept only if they map to the same id.
+    let query = supabase
+      .from('administrative')
+      .select('*')
+      .eq('is_active', true);
+
+    if (identifierParam) {
+      query = query.eq('external_identifier', identifierParam);
+    } else if (patientParam.startsWith('adm-')) {
+      query = query.eq('administrative_id', patientParam.slice(4));
+    } else {
+      const pattern = getExternalIdentifierPattern(patientParam);
+      if (!pattern) {
+        return res.status(400).json({ error: `Invalid Patient id: ${patientParam}.` });
+      }
+      query = query.like('external_identifier', pattern);
+    }
+
+    const { data: candidates, error } = await query
+      .order('created_at', { ascending: false })
+      .returns<FhirAdministrativeRow[]>();
+
+    if (error) {
+      console.error('Error searching administrative records for FHIR:', error);
+      return res.status(500).json({ error: 'Internal server error while searching diagnostic reports.' });
+    }
+
+    const administratives = identifierParam
+      ? candidates
+      : (candidates || []).filter(administrative => getFhirPatientId(administrative) === patientParam);
+
+    // 3. Map every record to FHIR resources
+    const resultsByAdministrative = administratives && administratives.length > 0
+      ? await fetchResultsByAdministrative(supabase, administratives.map(admin => admin.administrative_id))
+      : {};
+
+    const entries: { resource: FhirResource; mode: 'match' | 'include' }[] = [];
+    for (const administrative of administratives || []) {
+      const resources = toFhirResources(administrative, resultsByAdministrative[administrative.administrative_id] || []);
+      entries.push({ resource: resources.diagnosticReport, mode: 'match' });
+      entries.push({ resource: resources.patient, mode: 'include' });
+      entries.push({ resource: resources.serviceRequest, mode: 'include' });
+      entries.push(...resources.observations.map(observation => ({ resource: observation, mode: 'include' as const })));
+    }
+
+    res.setHeader('Content-Type', FHIR_CONTENT_TYPE);
+    res.status(200).send(JSON.stringify(buildFhirBundle(getFhirBaseUrl(req), 'searchset', entries)));
+
+  } catch (err: any) {
+    console.error('Exception in searchDiagnosticReports:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to export every record of an import as a FHIR collection Bundle.
+ * The import is identified by its import registry id (administrative.import_id): archive names
+ * are not unique, the same name can be uploaded more than once.
+ * @param supabase Supabase client
+ */
+export const exportImportFhirBundle = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { importId } = req.params;
+
+    // 1. Input validation
+    if (!importId) {
+      return res.status(400).json({ error: 'Import ID is mandatory.' });
+    }
+
+    // 2. Get the active administrative records of the import
+    const { data: administratives, error } = await supabase
+      .from('administrative')
+      .select('*')
+      .eq('import_id', importId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+      .returns<FhirAdministrativeRow[]>();
+
+    if (error) {
+      console.error('Error getting administrative records for FHIR export:', error);
+      return res.status(500).json({ error: 'Internal server error while exporting the upload.' });
+    }
+
+    if (!administratives || administratives.length === 0) {
+      return res.status(404).json({ error: 'No active records found for the specified import.' });
+    }
+
+    // 3. Map every record to FHIR resources and bundle them
+    const resultsByAdministrative = await fetchResultsByAdministrative(supabase, administratives.map(admin => admin.administrative_id));
+
+    const entries: { resource: FhirResource }[] = [];
+    for (const administrative of administratives) {
+      const resources = toFhirResources(administrative, resultsByAdministrative[administrative.administrative_id] || []);
+      entries.push({ resource: resources.patient });
+      entries.push({ resource: resources.serviceRequest });
+      entries.push({ resource: resources.diagnosticReport });
+      entries.push(...resources.observations.map(observation => ({ resource: observation })));
+    }
+
+    res.setHeader('Content-Type', FHIR_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="import-${importId}.fhir.json"`);
+    res.status(200).send(JSON.stringify(buildFhirBundle(getFhirBaseUrl(req), 'collection', entries)));
+
+  } catch (err: any) {
+    console.error('Exception in exportImportFhirBundle:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
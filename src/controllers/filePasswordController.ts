@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FILE_PASSWORD_PUBLIC_COLUMNS } from '../services/filePasswordService';
+import { encryptSecret } from '../utils/secretCipher';
+
+// Define the interface for archive password data
+interface FilePasswordData {
+  password?: string;
+  lab_identification?: string | null; // Lab / sender whose archives use this password
+  description?: string | null;
+}
+
+// Passwords are never returned: responses only carry FILE_PASSWORD_PUBLIC_COLUMNS
+
+/**
+ * Endpoint to create a new archive password (stored encrypted).
+ * @param supabase Supabase client
+ */
+export const createFilePassword = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { password, lab_identification, description }: FilePasswordData = req.body;
+
+    // 1. Input validation
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'The password is a required field.' });
+    }
+
+    // 2. Insert the encrypted password
+    const { data, error } = await supabase
+      .from('filepassword')
+      .insert({
+        password_encrypted: encryptSecret(password),
+        lab_identification: lab_identification || null,
+        description: description || null,
+      })
+      .select(FILE_PASSWORD_PUBLIC_COLUMNS);
+
+    if (error) {
+      console.error('Error creating the archive password:', error);
+      return res.status(500).json({ error: 'Internal server error while creating the archive password.' });
+    }
+
+    res.status(201).json({
+      message: 'Archive password created successfully.',
+      data: data[0],
+    });
+
+  } catch (err: any) {
+    console.error('Exception in createFilePassword:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to get all active archive passwords (without the passwords themselves).
+ * Optional ?lab_identification= filter.
+ * @param supabase Supabase client
+ */
+export const getAllFilePasswords = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    // 1. Get all active passwords, in the order they are tried
+    let query = supabase
+      .from('filepassword')
+      .select(FILE_PASSWORD_PUBLIC_COLUMNS)
+      .eq('is_active', true);
+
+    if (typeof req.query.lab_identification === 'string') {
+      query = query.eq('lab_identification', req.query.lab_identification);
+    }
+
+    const { data, error } = await query
+      .order('last_used_at', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching archive passwords:', error);
+      return res.status(500).json({ error: 'Internal server error while fetching archive passwords.' });
+    }
+
+    res.status(200).json(data);
+
+  } catch (err: any) {
+    console.error('Exception in getAllFilePasswords:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to get a specific archive password by its ID (without the password itself).
+ * @param supabase Supabase client
+ */
+export const getFilePasswordById = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { filepId } = req.params;
+
+    // 1. Input validation
+    if (!filepId) {
+      return res.status(400).json({ error: 'The archive password ID is required.' });
+    }
+
+    // 2. Get the password by ID and ensure it is active
+    const { data, error } = await supabase
+      .from('filepassword')
+      .select(FILE_PASSWORD_PUBLIC_COLUMNS)
+      .eq('filep_id', filepId)
+      .eq('is_active', true)
+      .single();
+
+    if (error) {
+      console.error('Error fetching archive password by ID:', error);
+      if (error.code === 'PGRST116') { // Code for "no rows found" in PostgREST
+        return res.status(404).json({ error: 'Archive password not found.' });
+      }
+      return res.status(500).json({ error: 'Internal server error.' });
+    }
+
+    res.status(200).json(data);
+
+  } catch (err: any) {
+    console.error('Exception in getFilePasswordById:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to update an archive password by its ID.
+ * Sending a new password rotates it; the usage history is kept.
+ * @param supabase Supabase client
+ */
+export const updateFilePassword = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { filepId } = req.params;
+    const { password, lab_identification, description }: FilePasswordData = req.body;
+
+    // 1. Input validation
+    if (!filepId) {
+      return res.status(400).json({ error: 'The archive password ID is required.' });
+    }
+
+    if (!password && lab_identification === undefined && description === undefined) {
+      return res.status(400).json({ error: 'At least one field (password, lab_identification or description) is required for the update.' });
+    }
+
+    // 2. Create the update object with the current date
+    const updatePayload: any = { updated_at: new Date().toISOString() };
+    if (password) {
+      updatePayload.password_encrypted = encryptSecret(password);
+      updatePayload.password = null; // Drop any legacy plaintext value
+    }
+    if (lab_identification !== undefined) updatePayload.lab_identification = lab_identification || null;
+    if (description !== undefined) updatePayload.description = description || null;
+
+    // 3. Update the password
+    const { data, error } = await supabase
+      .from('filepassword')
+      .update(updatePayload)
+      .eq('filep_id', filepId)
+      .eq('is_active', true)
+      .select(FILE_PASSWORD_PUBLIC_COLUMNS);
+
+    if (error) {
+      console.error('Error updating the archive password:', error);
+      return res.status(500).json({ error: 'Internal server error while updating.' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Archive password not found.' });
+    }
+
+    res.status(200).json({
+      message: 'Archive password updated successfully.',
+      data: data[0],
+    });
+
+  } catch (err: any) {
+    console.error('Exception in updateFilePassword:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to deactivate an archive password by its ID (soft delete).
+ * @param supabase Supabase client
+ */
+export const deactivateFilePassword = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { filepId } = req.params;
+
+    // 1. Input validation
+    if (!filepId) {
+      return res.status(400).json({ error: 'The archive password ID is required.' });
+    }
+
+    // 2. Deactivate the password
+    const { data, error } = await supabase
+      .from('filepassword')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('filep_id', filepId)
+      .select(FILE_PASSWORD_PUBLIC_COLUMNS);
+
+    if (error) {
+      console.error('Error deactivating the archive password:', error);
+      return res.status(500).json({ error: 'Internal server error while deactivating.' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Archive password not found.' });
+    }
+
+    res.status(200).json({
+      message: 'Archive password deactivated successfully.',
+      data: data[0],
+    });
+
+  } catch (err: any) {
+    console.error('Exception in deactivateFilePassword:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
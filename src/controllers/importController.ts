@@ -0,0 +1,236 @@
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ImportJobService } from '../services/importJobService';
+import { LabImportService } from '../services/labImportService';
+import { OrderStatusService } from '../services/orderStatusService';
+import { FileStorage } from '../services/fileStorage';
+import { reprocessLabFiles } from '../services/labReprocessor';
+import { ParseMode } from '../utils/labFileParser';
+
+/**
+ * Endpoint to follow a background import job created by /upload-lab-file.
+ * While the job runs it reports files done, blocks inserted, skipped files and errors;
+ * once completed it also returns the full import summary. A job whose archive broke a safety limit
+ * ends as 'rejected' with errorStatus (413, 400 or 422); 'failed' is a server-side failure.
+ * @param supabase Supabase client
+ */
+export const getImportJob = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    // 1. Input validation
+    if (!jobId) {
+      return res.status(400).json({ error: 'The job ID is mandatory.' });
+    }
+
+    // 2. Get the job
+    const job = await ImportJobService.getJob(supabase, jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found.' });
+    }
+
+    res.status(200).json({
+      jobId: job.job_id,
+      status: job.status,
+      archiveName: job.archive_name,
+      importId: job.import_id || null,
+      filesTotal: job.files_total,
+      filesDone: job.files_done,
+      blocksInserted: job.blocks_inserted,
+      skippedFiles: job.skipped_files || [],
+      errors: job.errors || [],
+      errorMessage: job.error_message || null,
+      errorStatus: job.error_status || null, // HTTP status of a rejected archive (status 'rejected')
+      createdAt: job.created_at,
+      startedAt: job.started_at || null,
+      finishedAt: job.finished_at || null,
+      result: job.result || null,
+    });
+
+  } catch (err: any) {
+    console.error('Exception in getImportJob:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to roll back a whole import: deactivates every administrative and result row
+ * it created, unlinks those results from their order lines (whose status is recalculated),
+ * deletes its stored result files and leaves an audit entry.
+ * Afterwards the same archive is accepted again by /upload-lab-file.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend holding the original files
+ */
+export const rollbackImport = (supabase: SupabaseClient, fileStorage: FileStorage) => async (req: Request, res: Response) => {
+  try {
+    const { importId } = req.params;
+
+    // 1. Input validation
+    if (!importId) {
+      return res.status(400).json({ error: 'The import ID is mandatory.' });
+    }
+
+    const labImport = await LabImportService.getActiveImportById(supabase, importId);
+    if (!labImport) {
+      return res.status(404).json({ error: 'Import not found or already rolled back.' });
+    }
+
+    // An import still being processed would keep inserting rows after the rollback
+    const pendingJob = await ImportJobService.findPendingJobByHash(supabase, labImport.archive_sha256);
+    if (pendingJob) {
+      return res.status(409).json({ error: 'The import is still being processed. Try again when the job has finished.', jobId: pendingJob.job_id });
+    }
+
+    // 2. Deactivate the administrative records of the import and their results (unlinked from their order lines)
+    const { data: administratives, error: adminSelectError } = await supabase
+      .from('administrative')
+      .select('administrative_id')
+      .eq('import_id', importId)
+      .eq('is_active', true);
+
+    if (adminSelectError) {
+      console.error('Error getting administrative records of the import:', adminSelectError);
+      return res.status(500).json({ error: 'Error getting the records of the import.' });
+    }
+
+    const administrativeIds = (administratives || []).map(admin => admin.administrative_id);
+    const now = new Date().toISOString();
+
+    let linkedLineIds: string[] = [];
+    if (administrativeIds.length > 0) {
+      const { data: linkedResults, error: linkedResultsError } = await supabase
+        .from('result')
+        .select('orderdetail_id')
+        .in('administrative_id', administrativeIds)
+        .eq('is_active', true)
+        .not('orderdetail_id', 'is', null);
+
+      if (linkedResultsError) {
+        console.error('Error getting the order links of the import results:', linkedResultsError);
+        return res.status(500).json({ error: 'Error getting associated results.' });
+      }
+      linkedLineIds = [...new Set((linkedResults || []).map(result => result.orderdetail_id as string))];
+
+      const { error: updateResultsError } = await supabase
+        .from('result')
+        .update({ is_active: false, orderdetail_id: null, order_link_source: null, updated_at: now })
+        .in('administrative_id', administrativeIds);
+
+      if (updateResultsError) {
+        console.error('Error updating results to inactive:', updateResultsError);
+        return res.status(500).json({ error: 'Error updating associated results.' });
+      }
+
+      const { error: updateAdminError } = await supabase
+        .from('administrative')
+        .update({ is_active: false, updated_at: now })
+        .in('administrative_id', administrativeIds);
+
+      if (updateAdminError) {
+        console.error('Error updating administrative records to inactive:', updateAdminError);
+        return res.status(500).json({ error: 'Error updating the administrative records.' });
+      }
+    }
+
+    // 3. The order lines that lost their results go back to their previous status
+    const errors: string[] = [];
+    try {
+      await OrderStatusService.releaseLines(supabase, linkedLineIds);
+    } catch (statusError: any) {
+      console.error('Error updating the order lines status:', statusError.message);
+      errors.push(`Error updating the order lines status: ${statusError.message}`);
+    }
+
+    // 4. Delete the stored result files; a file that can't be deleted doesn't stop the rollback
+    const labFiles = await LabImportService.getImportFiles(supabase, importId);
+    let filesDeleted = 0;
+    for (const labFile of labFiles) {
+      if (!labFile.storage_key) continue;
+      try {
+        await fileStorage.delete(labFile.storage_key);
+        filesDeleted++;
+      } catch (deleteError: any) {
+        console.error(`Error deleting stored file ${labFile.storage_key}:`, deleteError.message);
+        errors.push(`Error deleting stored file ${labFile.lab_file_name}: ${deleteError.message}`);
+      }
+    }
+
+    // 5. Deactivate the import so the same content is no longer a duplicate, and audit it
+    await LabImportService.deactivateImport(supabase, importId);
+    await LabImportService.recordAudit(supabase, {
+      import_id: importId,
+      action: 'rollback',
+      performed_by: req.user?.userId || null,
+      details: {
+        archive_name: labImport.archive_name,
+        archive_sha256: labImport.archive_sha256,
+        administrative_ids: administrativeIds,
+        orderdetail_ids_unlinked: linkedLineIds,
+        files_deleted: filesDeleted,
+        errors,
+      },
+    });
+
+    res.status(200).json({
+      message: 'Import successfully rolled back.',
+      importId: importId,
+      administrativesDeactivated: administrativeIds.length,
+      orderLinesUnlinked: linkedLineIds.length,
+      filesDeleted: filesDeleted,
+      errors: errors,
+    });
+
+  } catch (err: any) {
+    console.error('Exception in rollbackImport:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to reparse stored result files with the current parser.
+ * Body: { importId?, from?, to?, mode?, confirm? } — an import and/or a date range (yyyy-mm-dd or ISO).
+ * Without confirm it only returns the differences against the stored result rows;
+ * with confirm: true the changed records are updated and their changed results replaced.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend holding the original files
+ */
+export const reprocessImports = (supabase: SupabaseClient, fileStorage: FileStorage) => async (req: Request, res: Response) => {
+  try {
+    const { importId, from, to, confirm }: { importId?: string; from?: string; to?: string; confirm?: boolean } = req.body;
+    const mode: ParseMode = req.body.mode || 'lenient';
+
+    // 1. Input validation
+    if (!importId && !from && !to) {
+      return res.status(400).json({ error: 'An import ID or a date range (from, to) is mandatory.' });
+    }
+
+    if (mode !== 'strict' && mode !== 'lenient') {
+      return res.status(400).json({ error: `Invalid parsing mode: ${mode}. Use "strict" or "lenient".` });
+    }
+
+    for (const date of [from, to]) {
+      if (date && isNaN(Date.parse(date))) {
+        return res.status(400).json({ error: `Invalid date: ${date}.` });
+      }
+    }
+
+    // 2. Reparse and compare (and replace, when confirmed)
+    const summary = await reprocessLabFiles(supabase, fileStorage, {
+      importId: importId || null,
+      from: from || null,
+      to: to && /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to || null, // A plain date includes the whole day
+      mode,
+      apply: confirm === true,
+      performedBy: req.user?.userId || null,
+    });
+
+    res.status(200).json({
+      message: summary.applied ? 'Records reprocessed and updated.' : 'Reprocessing preview. Send confirm: true to replace the results.',
+      ...summary,
+    });
+
+  } catch (err: any) {
+    console.error('Exception in reprocessImports:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { OrderStatusService } from '../services/orderStatusService';
 
 // --- Interfaces for data structure ---
 
@@ -84,6 +85,13 @@ export const createInvoiceWithDetails = (supabase: SupabaseClient) => async (req
       return res.status(500).json({ error: 'Error creating invoice details. The main invoice was reverted.' });
     }
 
+    // Move the invoiced patients' order lines to 'invoiced'; the invoice is kept even if this fails
+    try {
+      await OrderStatusService.markPatientsInvoiced(supabase, [...new Set(details.map(detail => detail.ref_patient))]);
+    } catch (statusError: any) {
+      console.error('Error updating the status of the invoiced orders:', statusError.message);
+    }
+
     res.status(201).json({
       message: 'Invoice and details created successfully.',
       invoice: invoiceData[0],
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import { FileStorage } from '../services/fileStorage';
+import { LabImportService } from '../services/labImportService';
+
+// Lifetime of the signed URLs handed out by getLabFileSignedUrl
+const SIGNED_URL_TTL_SECONDS = 300;
+
+/**
+ * Sends a stored result file as a download.
+ */
+const sendLabFile = (res: Response, fileName: string, data: Buffer) => {
+  res.setHeader('Content-Type', 'application/octet-stream');
+  res.setHeader('Content-Disposition', `attachment; filename="${path.basename(fileName).replace(/"/g, '')}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.status(200).send(data);
+};
+
+/**
+ * Endpoint to download an original result file (.lab / HL7) of an import.
+ * The id is the import_file_id returned in the labFiles list of /upload-lab-file.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend holding the original files
+ */
+export const getLabFile = (supabase: SupabaseClient, fileStorage: FileStorage) => async (req: Request, res: Response) => {
+  try {
+    const { labFileId } = req.params;
+
+    // 1. Input validation
+    if (!labFileId) {
+      return res.status(400).json({ error: 'The lab file ID is mandatory.' });
+    }
+
+    // 2. Find the registered file
+    const labFile = await LabImportService.getFileById(supabase, labFileId);
+    if (!labFile || !labFile.storage_key) {
+      return res.status(404).json({ error: 'Lab file not found or inactive.' });
+    }
+
+    // 3. Read it from storage
+    const data = await fileStorage.get(labFile.storage_key);
+    sendLabFile(res, labFile.lab_file_name, data);
+
+  } catch (err: any) {
+    console.error('Exception in getLabFile:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint to get an expiring signed URL for an original result file.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend holding the original files
+ */
+export const getLabFileSignedUrl = (supabase: SupabaseClient, fileStorage: FileStorage) => async (req: Request, res: Response) => {
+  try {
+    const { labFileId } = req.params;
+
+    // 1. Input validation
+    if (!labFileId) {
+      return res.status(400).json({ error: 'The lab file ID is mandatory.' });
+    }
+
+    // 2. Find the registered file
+    const labFile = await LabImportService.getFileById(supabase, labFileId);
+    if (!labFile || !labFile.storage_key) {
+      return res.status(404).json({ error: 'Lab file not found or inactive.' });
+    }
+
+    // 3. Sign it
+    const url = await fileStorage.getSignedUrl(labFile.storage_key, SIGNED_URL_TTL_SECONDS);
+    res.status(200).json({
+      url,
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+    });
+
+  } catch (err: any) {
+    console.error('Exception in getLabFileSignedUrl:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Endpoint serving the signed URLs of storage backends that don't serve them themselves (local disk).
+ * Not protected by JWT: the signature and expiry in the query string are the authorization.
+ * @param fileStorage Storage backend holding the original files
+ */
+export const serveSignedLabFile = (fileStorage: FileStorage) => async (req: Request, res: Response) => {
+  try {
+    const key = typeof req.query.key === 'string' ? req.query.key : '';
+    const expires = Number(req.query.expires);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+    if (!fileStorage.verifySignedUrl) {
+      return res.status(404).json({ error: 'Signed URLs are not served by this endpoint.' });
+    }
+
+    if (!key || !signature || !fileStorage.verifySignedUrl(key, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired signed URL.' });
+    }
+
+    const data = await fileStorage.get(key);
+    sendLabFile(res, key, data);
+
+  } catch (err: any) {
+    console.error('Exception in serveSignedLabFile:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Request, Response } from 'express';
+import { createFakeSupabase } from '../testing/fakeSupabase';
+import { linkResultToOrderLine } from './orderController';
+
+const resultedAt = '2025-03-10T10:00:00.000Z';
+
+// Two orders with one line each; the result is linked to the line of the first one
+const createOrders = () => createFakeSupabase({
+  order: [
+    { order_id: 'o1', status: 'resulted', is_active: true },
+    { order_id: 'o2', status: 'sent', is_active: true },
+  ],
+  orderdetail: [
+    { orderdetail_id: 'l1', order_id: 'o1', status: 'resulted', resulted_at: resultedAt, is_active: true },
+    { orderdetail_id: 'l2', order_id: 'o2', status: 'sent', resulted_at: null, is_active: true },
+  ],
+  result: [
+    { result_id: 'r1', orderdetail_id: 'l1', order_link_source: 'auto', is_active: true },
+  ],
+});
+
+const callLink = async (supabase: ReturnType<typeof createFakeSupabase>['supabase'], orderdetailId: string | null) => {
+  let statusCode = 0;
+  const req = { params: { resultId: 'r1' }, body: { orderdetail_id: orderdetailId } } as unknown as Request;
+  const res = {
+    status: (code: number) => {
+      statusCode = code;
+      return { json: () => undefined };
+    },
+  } as unknown as Response;
+  await linkResultToOrderLine(supabase)(req, res);
+  return statusCode;
+};
+
+const statusOf = (rows: { [column: string]: any }[], idColumn: string, id: string) =>
+  rows.find(row => row[idColumn] === id)!.status;
+
+describe('linkResultToOrderLine', () => {
+  it('moves the result and releases the line it left', async () => {
+    const { supabase, tables } = createOrders();
+
+    expect(await callLink(supabase, 'l2')).toBe(200);
+
+    expect(tables.result[0]).toMatchObject({ orderdetail_id: 'l2', order_link_source: 'manual' });
+    expect(statusOf(tables.orderdetail, 'orderdetail_id', 'l2')).toBe('resulted');
+    expect(statusOf(tables.order, 'order_id', 'o2')).toBe('resulted');
+    expect(statusOf(tables.orderdetail, 'orderdetail_id', 'l1')).toBe('sent');
+    expect(statusOf(tables.order, 'order_id', 'o1')).toBe('sent');
+  });
+
+  it('releases the line of an unlinked result', async () => {
+    const { supabase, tables } = createOrders();
+
+    expect(await callLink(supabase, null)).toBe(200);
+
+    expect(tables.result[0]).toMatchObject({ orderdetail_id: null, order_link_source: 'manual' });
+    expect(statusOf(tables.orderdetail, 'orderdetail_id', 'l1')).toBe('sent');
+    expect(statusOf(tables.order, 'order_id', 'o1')).toBe('sent');
+    expect(statusOf(tables.order, 'order_id', 'o2')).toBe('sent');
+  });
+
+  it('keeps the line when another active result is still linked to it', async () => {
+    const { supabase, tables } = createOrders();
+    tables.result.push({ result_id: 'r2', orderdetail_id: 'l1', order_link_source: 'auto', is_active: true });
+
+    expect(await callLink(supabase, null)).toBe(200);
+
+    expect(statusOf(tables.orderdetail, 'orderdetail_id', 'l1')).toBe('resulted');
+    expect(statusOf(tables.order, 'order_id', 'o1')).toBe('resulted');
+  });
+});
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { OrderResultLinkService } from '../services/orderResultLinkService';
+import { OrderStatusService } from '../services/orderStatusService';
+import { canTransitionOrder, deriveOrderStatus, ORDER_STATUSES, OrderLineState, OrderStatus, statusUpdate } from '../utils/orderStatus';
 
 // --- Interfaces for data structure ---
 
@@ -47,7 +50,8 @@ export const createOrderWithDetails = (supabase: SupabaseClient) => async (req:
       .insert({
         date,
         description,
-        upload_file
+        upload_file,
+        status: 'draft', // Moves to 'sent' with PATCH /orders/:orderId/status
         // created_at, updated_at, is_active are handled by default in the table
       })
       .select('order_id'); // We only need the order_id for the details
@@ -63,6 +67,7 @@ export const createOrderWithDetails = (supabase: SupabaseClient) => async (req:
     const detailsToInsert = details.map(detail => ({
       ...detail,
       order_id: order_id, // Assign the newly created order ID
+      status: 'draft',
       created_at: new Date().toISOString(), // Ensure created_at is generated if not default in DB
       updated_at: new Date().toISOString(), // Ensure updated_at is generated if not default in DB
     }));
@@ -96,12 +101,26 @@ export const createOrderWithDetails = (supabase: SupabaseClient) => async (req:
 };
 
 // 2. Get all Orders (headers only)
+// Optional ?status= filter, with one status or several separated by commas (e.g. ?status=sent,partially_resulted)
 export const getAllOrders = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
   try {
-    const { data, error } = await supabase
+    const statuses = typeof req.query.status === 'string' ? req.query.status.split(',').map(status => status.trim()).filter(Boolean) : [];
+    const invalidStatuses = statuses.filter(status => !ORDER_STATUSES.includes(status as OrderStatus));
+
+    if (invalidStatuses.length > 0) {
+      return res.status(400).json({ error: `Invalid order status: ${invalidStatuses.join(', ')}. Use ${ORDER_STATUSES.join(', ')}.` });
+    }
+
+    let query = supabase
       .from('order')
       .select('*')
-      .eq('is_active', true) // Optional: only active orders
+      .eq('is_active', true); // Optional: only active orders
+
+    if (statuses.length > 0) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query
       .order('created_at', { ascending: false }); // Order by creation date
 
     if (error) {
@@ -190,3 +209,281 @@ export const deleteOrder = (supabase: SupabaseClient) => async (req: Request, re
     res.status(500).json({ error: 'Internal server error.' });
   }
 };
+
+// 5. Get the Result Status of an Order
+// Each line is 'resulted' (has linked results) or 'pending'; results of the order's patients
+// that match no line are listed as unordered.
+export const getOrderResultStatus = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'Order ID is mandatory.' });
+    }
+
+    // 1. Get the active lines of the order
+    const { data: lines, error: linesError } = await supabase
+      .from('orderdetail')
+      .select('*')
+      .eq('order_id', orderId)
+      .eq('is_active', true)
+      .order('number', { ascending: true });
+
+    if (linesError) {
+      console.error('Error getting order details:', linesError);
+      return res.status(500).json({ error: linesError.message });
+    }
+
+    if (!lines || lines.length === 0) {
+      return res.status(404).json({ message: 'No details found for the specified order.' });
+    }
+
+    // 2. Get the results linked to those lines
+    const { data: linkedResults, error: linkedError } = await supabase
+      .from('result')
+      .select('*')
+      .in('orderdetail_id', lines.map(line => line.orderdetail_id))
+      .eq('is_active', true);
+
+    if (linkedError) {
+      console.error('Error getting linked results:', linkedError);
+      return res.status(500).json({ error: linkedError.message });
+    }
+
+    // 3. Get the results of the same patients / analyses that are not linked to any line
+    const administrativeIds = await OrderResultLinkService.findAdministrativesForLines(supabase, lines);
+    const { data: unorderedResults, error: unorderedError } = administrativeIds.length > 0
+      ? await supabase
+        .from('result')
+        .select('*, administrative(ident_protocol, external_identifier, surname, firstname)')
+        .in('administrative_id', administrativeIds)
+        .is('orderdetail_id', null)
+        .eq('is_active', true)
+      : { data: [], error: null };
+
+    if (unorderedError) {
+      console.error('Error getting unordered results:', unorderedError);
+      return res.status(500).json({ error: unorderedError.message });
+    }
+
+    const lineStatuses = lines.map(line => {
+      const results = (linkedResults || []).filter(result => result.orderdetail_id === line.orderdetail_id);
+      return { ...line, result_status: results.length > 0 ? 'resulted' : 'pending', results };
+    });
+
+    res.status(200).json({
+      orderId,
+      resulted: lineStatuses.filter(line => line.result_status === 'resulted').length,
+      pending: lineStatuses.filter(line => line.result_status === 'pending').length,
+      unordered: (unorderedResults || []).length,
+      lines: lineStatuses,
+      unorderedResults: unorderedResults || [],
+    });
+  } catch (err: any) {
+    console.error('Exception in getOrderResultStatus:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+// 6. Re-run the automatic Result Linking for an Order
+// Useful for results imported before the order was confirmed. Manual links are kept.
+export const relinkOrderResults = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'Order ID is mandatory.' });
+    }
+
+    const summary = await OrderResultLinkService.relinkOrder(supabase, orderId);
+
+    if (!summary) {
+      return res.status(404).json({ message: 'No details found for the specified order.' });
+    }
+
+    res.status(200).json({ message: 'Order results relinked successfully.', ...summary });
+  } catch (err: any) {
+    console.error('Exception in relinkOrderResults:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+// 7. Manually link a Result to an Order Line (or unlink it with orderdetail_id: null)
+// Manual links are never changed by the automatic matching.
+export const linkResultToOrderLine = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { resultId } = req.params;
+    const { orderdetail_id }: { orderdetail_id?: string | null } = req.body;
+
+    if (!resultId) {
+      return res.status(400).json({ error: 'Result ID is mandatory.' });
+    }
+
+    if (orderdetail_id === undefined) {
+      return res.status(400).json({ error: 'orderdetail_id is mandatory (null to unlink).' });
+    }
+
+    // Check that the order line exists and is active
+    if (orderdetail_id !== null) {
+      const { error: lineError } = await supabase
+        .from('orderdetail')
+        .select('orderdetail_id')
+        .eq('orderdetail_id', orderdetail_id)
+        .eq('is_active', true)
+        .single();
+
+      if (lineError) {
+        if (lineError.code === 'PGRST116') {
+          return res.status(404).json({ error: 'Order line not found.' });
+        }
+        console.error('Error getting the order line:', lineError);
+        return res.status(500).json({ error: lineError.message });
+      }
+    }
+
+    // Get the line the result is linked to now, to release it if the link changes
+    const { data: currentResult, error: resultError } = await supabase
+      .from('result')
+      .select('result_id, orderdetail_id')
+      .eq('result_id', resultId)
+      .eq('is_active', true)
+      .single();
+
+    if (resultError) {
+      if (resultError.code === 'PGRST116') {
+        return res.status(404).json({ error: 'Result not found.' });
+      }
+      console.error('Error getting the result:', resultError);
+      return res.status(500).json({ error: resultError.message });
+    }
+    const previousLineId: string | null = currentResult.orderdetail_id || null;
+
+    // An unlinked result stays manual so the automatic matching doesn't link it again
+    const { data, error } = await supabase
+      .from('result')
+      .update({ orderdetail_id, order_link_source: 'manual', updated_at: new Date().toISOString() })
+      .eq('result_id', resultId)
+      .eq('is_active', true)
+      .select();
+
+    if (error) {
+      console.error('Error linking the result:', error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Result not found.' });
+    }
+
+    // A line with a result moves to 'resulted', and the line the result left goes back if it has no other result;
+    // the link is kept even if this fails
+    try {
+      if (orderdetail_id) {
+        await OrderStatusService.advanceLines(supabase, [orderdetail_id], 'resulted');
+      }
+      if (previousLineId && previousLineId !== orderdetail_id) {
+        await OrderStatusService.releaseLines(supabase, [previousLineId]);
+      }
+    } catch (statusError: any) {
+      console.error('Error updating the order line status:', statusError.message);
+    }
+
+    res.status(200).json({ message: orderdetail_id ? 'Result linked to the order line.' : 'Result unlinked from its order line.', data: data[0] });
+  } catch (err: any) {
+    console.error('Exception in linkResultToOrderLine:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+// 8. Move an Order to another Status
+// Only the allowed transitions are accepted (see utils/orderStatus), and only to the status its lines lead to.
+// Sending an order also sends its draft lines; the later statuses normally advance on their own when results
+// are imported and invoices recorded.
+export const updateOrderStatus = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { status }: { status?: OrderStatus } = req.body;
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'Order ID is mandatory.' });
+    }
+
+    if (!status || !ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid order status: ${status}. Use ${ORDER_STATUSES.join(', ')}.` });
+    }
+
+    // 1. Get the current status
+    const { data: order, error: orderError } = await supabase
+      .from('order')
+      .select('order_id, status')
+      .eq('order_id', orderId)
+      .eq('is_active', true)
+      .single();
+
+    if (orderError) {
+      if (orderError.code === 'PGRST116') {
+        return res.status(404).json({ error: 'Order not found.' });
+      }
+      console.error('Error getting the order:', orderError);
+      return res.status(500).json({ error: orderError.message });
+    }
+
+    // 2. Validate the transition
+    const currentStatus: OrderStatus = order.status || 'draft';
+    if (!canTransitionOrder(currentStatus, status)) {
+      return res.status(409).json({ error: `An order cannot move from "${currentStatus}" to "${status}".` });
+    }
+
+    // 3. Validate the new status against the lines (as they will be once the draft lines are sent)
+    const { data: lines, error: linesFetchError } = await supabase
+      .from('orderdetail')
+      .select('status, resulted_at')
+      .eq('order_id', orderId)
+      .eq('is_active', true);
+
+    if (linesFetchError) {
+      console.error('Error getting the order lines:', linesFetchError);
+      return res.status(500).json({ error: linesFetchError.message });
+    }
+
+    const lineStates: OrderLineState[] = (lines || []).map(line => ({
+      status: status === 'sent' && (line.status || 'draft') === 'draft' ? 'sent' : line.status || 'draft',
+      resulted_at: line.resulted_at,
+    }));
+    const derivedStatus = deriveOrderStatus(lineStates);
+    if (derivedStatus !== status) {
+      return res.status(409).json({ error: `The order lines correspond to the status "${derivedStatus}", not "${status}".` });
+    }
+
+    // 4. Update the order (and send its draft lines with it)
+    const { data, error } = await supabase
+      .from('order')
+      .update(statusUpdate(status))
+      .eq('order_id', orderId)
+      .select();
+
+    if (error) {
+      console.error('Error updating the order status:', error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (status === 'sent') {
+      const { error: linesError } = await supabase
+        .from('orderdetail')
+        .update(statusUpdate('sent'))
+        .eq('order_id', orderId)
+        .eq('status', 'draft')
+        .eq('is_active', true);
+
+      if (linesError) {
+        console.error('Error updating the order lines status:', linesError);
+        return res.status(500).json({ error: linesError.message });
+      }
+    }
+
+    res.status(200).json({ message: 'Order status updated successfully.', data: data[0] });
+  } catch (err: any) {
+    console.error('Exception in updateOrderStatus:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createOrderPreview } from './orderPreviewController';
+
+// Stubbed data layer: every query builder resolves to the canned rows of its table,
+// and every from() / rpc() call counts as one round trip to Supabase
+const createStubSupabase = (tables: { [table: string]: any[] }) => {
+  const calls: string[] = [];
+  const counters: { [centreId: string]: number } = {};
+
+  const from = (table: string) => {
+    calls.push(table);
+    let rows = tables[table] || [];
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      in: () => builder,
+      limit: () => builder,
+      order: () => builder,
+      returns: () => builder,
+      delete: () => builder,
+      insert: (inserted: any) => {
+        rows = (Array.isArray(inserted) ? inserted : [inserted]).map(row => ({ order_id: 'preview-1', ...row }));
+        return builder;
+      },
+      then: (resolve: (value: any) => void) => resolve({ data: rows, error: null }),
+    };
+    return builder;
+  };
+
+  const rpc = async (name: string, params: { _counts: { [centreId: string]: number } }) => {
+    calls.push(`rpc:${name}`);
+    const data = Object.entries(params._counts).map(([centreId, count]) => {
+      counters[centreId] = (counters[centreId] || 0) + count;
+      return { centre_id: centreId, last_value: counters[centreId] };
+    });
+    return { data, error: null };
+  };
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, calls };
+};
+
+const medicalCenters = [
+  { centre_id: 'c1', name: 'Centre A', abbreviation: 'CA', is_active: true },
+  { centre_id: 'c2', name: 'Centre B', abbreviation: 'CB', is_active: true },
+  { centre_id: 'c3', name: 'Centre C', abbreviation: 'CC', is_active: true },
+];
+
+const runPreview = async (lineCount: number) => {
+  const { supabase, calls } = createStubSupabase({
+    orderpreview: [], // No preview exists yet for the period
+    centremedical: medicalCenters,
+    translation_alias: [{ name: 'Glucose', translation: { code_hw: 'GLU' } }, { name: 'Urea', translation: { code_hw: 'URE' } }],
+  });
+
+  const orderDetails = Array.from({ length: lineCount }, (_, index) => ({
+    medical_center: medicalCenters[index % medicalCenters.length].name,
+    patient_name: `Patient ${index % 97}`,
+    nomenclature: index % 2 === 0 ? 'Glucose' : 'Urea',
+  }));
+
+  let statusCode = 0;
+  let body: any;
+  const req = { body: { date: '2025-03-03', description: 'Weekly order', year: 2025, month: 3, week: 1, orderDetails } } as Request;
+  const res = {
+    status: (code: number) => {
+      statusCode = code;
+      return { json: (payload: any) => { body = payload; } };
+    },
+  } as unknown as Response;
+
+  await createOrderPreview(supabase)(req, res);
+  return { statusCode, body, calls };
+};
+
+describe('createOrderPreview', () => {
+  it('makes the same number of queries for 1 line and for 400 lines', async () => {
+    const single = await runPreview(1);
+    const large = await runPreview(400);
+
+    expect(single.statusCode).toBe(201);
+    expect(large.statusCode).toBe(201);
+    expect(large.body.orderDetails).toHaveLength(400);
+
+    // Existing-preview check, header insert, centres, aliases, one counter reservation and the detail insert.
+    // The reservation is a single RPC for every center of the request (reserve_patient_correlatives_batch).
+    expect(single.calls).toEqual(['orderpreview', 'orderpreview', 'centremedical', 'translation_alias', 'rpc:reserve_patient_correlatives_batch', 'orderdetailpreview']);
+    expect(large.calls).toEqual(single.calls);
+  });
+
+  it('gives each patient one reference and never repeats it across patients', async () => {
+    const { body } = await runPreview(400);
+    // A patient is a medical center and a name: the same name at two centers gets two references
+    const refsByPatient = new Map<string, Set<string>>();
+    for (const detail of body.orderDetails) {
+      const patient = `${detail.centre_medical}/${detail.name_patient}`;
+      if (!refsByPatient.has(patient)) refsByPatient.set(patient, new Set());
+      refsByPatient.get(patient)!.add(detail.ref_patient);
+    }
+
+    expect([...refsByPatient.values()].every(refs => refs.size === 1)).toBe(true);
+    const allRefs = [...refsByPatient.values()].map(refs => [...refs][0]);
+    expect(new Set(allRefs).size).toBe(allRefs.length);
+    expect(allRefs).toContain('CAHWF0325001');
+  });
+});
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { PatientRefCounterService } from '../services/patientRefCounterService';
+import { statusUpdate } from '../utils/orderStatus';
 
 // Define interfaces for better typing
 interface OrderDetailInput {
@@ -18,18 +20,17 @@ interface OrderPreviewRequestBody {
 }
 
 interface MedicalCenterAbbr {
+  centre_id: string;
+  name: string;
   abbreviation: string;
 }
 
-interface TranslationCode {
-  code_hw: string;
-}
-
 // Update the interface to reflect the nested structure from the join query
 type TranslationAliasWithCode = {
+  name: string;
   translation: {
     code_hw: string; // The type of code_hw is string
-  };
+  } | null;
 };
 
 // Interface to store patient data for correlative generation
@@ -38,9 +39,227 @@ interface PatientCorrelativeData {
   patientRef: string;
 }
 
+// Why a line could not get its references. Rejected lines stay in the preview (orderdetailpreview.rejection_reason)
+// and can be re-run once fixed: POST /order-previews/:orderId/rejected-lines/retry
+type PreviewLineRejectionReason = 'unknown_centre' | 'inactive_centre' | 'empty_patient_name';
+
+// An input line with its row number in the preview
+interface PreviewLineInput extends OrderDetailInput {
+  number: number;
+}
+
+// A row of orderdetailpreview (rejected rows have no references or code)
+interface OrderDetailPreviewRow {
+  orderdetail_id?: string; // Set once stored
+  order_id: string;
+  number: number;
+  centre_medical: string;
+  ref_patient: string | null;
+  name_patient: string;
+  ref_analyze: string | null;
+  nomenclature_examen: string;
+  code: string | null;
+  rejection_reason: PreviewLineRejectionReason | null;
+}
+
+// A patient that already has a reference in the preview, with the medical center it was issued for
+interface KnownPatient extends PatientCorrelativeData {
+  medicalCenter: string;
+  patientName: string;
+}
+
+// Patients are identified by medical center and name: the same name at two centers is two patients
+const patientKey = (centreId: string, patientName: string) => `${centreId}\n${patientName}`;
+
+// --- Helpers ---
+
+/**
+ * Generates the references and code of preview lines, loading every medical center and nomenclature alias
+ * at once (two queries whatever the number of lines) and resolving each line in memory.
+ * New patients get their correlative numbers from the persistent counter of their medical center.
+ * Lines that can't be resolved are returned as rows with a rejection_reason and no references.
+ * @param supabase Supabase client
+ * @param preview The preview the lines belong to
+ * @param lines The lines to resolve
+ * @param knownPatients Patients that already have a reference in this preview (reused by medical center and name)
+ * @returns The rows to insert into orderdetailpreview
+ * @throws Error if a lookup or the counter reservation fails
+ */
+const resolvePreviewLines = async (
+  supabase: SupabaseClient,
+  preview: { orderId: string; year: number; month: number },
+  lines: PreviewLineInput[],
+  knownPatients: KnownPatient[]
+): Promise<OrderDetailPreviewRow[]> => {
+  const { orderId, year, month } = preview;
+  const monthYear = `${String(month).padStart(2, '0')}${String(year).slice(-2)}`;
+
+  // 1. Load the medical centers (inactive ones too, to tell them apart from unknown ones) and the aliases
+  const medicalCenterNames = [...new Set([
+    ...lines.map(line => (line.medical_center || '').trim()),
+    ...knownPatients.map(patient => patient.medicalCenter),
+  ])];
+  const { data: medicalCenters, error: mcError } = await supabase
+    .from('centremedical')
+    .select('centre_id, name, abbreviation, is_active')
+    .in('name', medicalCenterNames);
+
+  if (mcError) {
+    throw new Error(`Error fetching the medical centers: ${mcError.message}`);
+  }
+
+  // An active row wins over inactive rows with the same name
+  const medicalCentersByName = new Map<string, MedicalCenterAbbr & { is_active: boolean }>();
+  for (const medicalCenter of medicalCenters || []) {
+    const current = medicalCentersByName.get(medicalCenter.name);
+    if (!current || (!current.is_active && medicalCenter.is_active)) medicalCentersByName.set(medicalCenter.name, medicalCenter);
+  }
+
+  const nomenclatures = [...new Set(lines.map(line => (line.nomenclature || '').trim()))];
+  const { data: aliases, error: aliasError } = await supabase
+    .from('translation_alias')
+    .select('name, translation(code_hw)')
+    .in('name', nomenclatures)
+    .eq('is_active', true)
+    .returns<TranslationAliasWithCode[]>();
+
+  if (aliasError) {
+    throw new Error(`Error fetching the nomenclature aliases: ${aliasError.message}`);
+  }
+
+  // First active alias of each nomenclature
+  const codesByNomenclature = new Map<string, string>();
+  for (const alias of aliases || []) {
+    const aliasCode = alias.translation?.code_hw?.trim();
+    if (aliasCode && !codesByNomenclature.has(alias.name)) codesByNomenclature.set(alias.name, aliasCode);
+  }
+
+  // Patients that already have a reference, keyed by the id of their medical center
+  const patientCorrelativeMap: { [key: string]: PatientCorrelativeData } = {};
+  for (const patient of knownPatients) {
+    const medicalCenterData = medicalCentersByName.get(patient.medicalCenter);
+    if (medicalCenterData) {
+      patientCorrelativeMap[patientKey(medicalCenterData.centre_id, patient.patientName)] = {
+        correlativePatient: patient.correlativePatient,
+        patientRef: patient.patientRef,
+      };
+    }
+  }
+
+  // 2. Check every line; accepted lines count their new patients per medical center
+  const checkedLines = lines.map(line => {
+    const medicalCenter = (line.medical_center || '').trim();
+    const patientName = (line.patient_name || '').trim();
+    const medicalCenterData = medicalCentersByName.get(medicalCenter);
+    let rejectionReason: PreviewLineRejectionReason | null = null;
+
+    if (!patientName) {
+      rejectionReason = 'empty_patient_name';
+    } else if (!medicalCenterData) {
+      rejectionReason = 'unknown_centre';
+    } else if (!medicalCenterData.is_active) {
+      rejectionReason = 'inactive_centre';
+    }
+    return { line, medicalCenter, patientName, medicalCenterData, rejectionReason };
+  });
+
+  const newPatientsByCentreId: { [centreId: string]: Set<string> } = {};
+  for (const checked of checkedLines) {
+    if (checked.rejectionReason || patientCorrelativeMap[patientKey(checked.medicalCenterData!.centre_id, checked.patientName)]) continue;
+    (newPatientsByCentreId[checked.medicalCenterData!.centre_id] ||= new Set()).add(checked.patientName);
+  }
+
+  // Next correlative number to hand out for each medical center, reserved from the persistent counters
+  // of every center in a single call (previews created at the same time never share a reference)
+  const newPatientCounts = Object.fromEntries(Object.entries(newPatientsByCentreId).map(([centreId, patients]) => [centreId, patients.size]));
+  const centreCorrelatives = Object.keys(newPatientCounts).length > 0
+    ? await PatientRefCounterService.reserveCorrelatives(supabase, year, month, newPatientCounts)
+    : {};
+  const processedDetails: OrderDetailPreviewRow[] = [];
+
+  // 3. Process each line
+  for (const { line, medicalCenter, patientName, medicalCenterData, rejectionReason } of checkedLines) {
+    const nomenclature = (line.nomenclature || '').trim();
+
+    if (rejectionReason) {
+      console.error(`Order preview line ${line.number} rejected (${rejectionReason}): ${medicalCenter} / ${patientName}`);
+      processedDetails.push({
+        order_id: orderId,
+        "number": line.number,
+        centre_medical: medicalCenter,
+        ref_patient: null,
+        name_patient: patientName,
+        ref_analyze: null,
+        nomenclature_examen: nomenclature,
+        code: null,
+        rejection_reason: rejectionReason,
+      });
+      continue;
+    }
+
+    // a. If the patient has not been processed in this preview, we generate new correlatives.
+    const { centre_id: centreId, abbreviation } = medicalCenterData!;
+    let currentPatientCorrelativeData = patientCorrelativeMap[patientKey(centreId, patientName)];
+    if (!currentPatientCorrelativeData) {
+
+      // b. Take the next correlative number reserved for the medical center
+      const correlativePatient = centreCorrelatives[centreId]++;
+
+      // c. Format the patient reference field and save it for reuse
+      currentPatientCorrelativeData = {
+        correlativePatient,
+        patientRef: `${abbreviation}HWF${monthYear}${String(correlativePatient).padStart(3, '0')}`,
+      };
+      patientCorrelativeMap[patientKey(centreId, patientName)] = currentPatientCorrelativeData;
+    }
+
+    // d. Get the code from the nomenclature for EACH detail line
+    const code = codesByNomenclature.get(nomenclature) || "NOT FOUND"; // Default value for code
+
+    if (code === "NOT FOUND") {
+      // The alias was not found, so we log the error and keep the default value
+      console.error(`Code not found for nomenclature: ${nomenclature}`);
+    }
+
+    // e. Generate the analysis reference using the new code
+    const formattedCorrelative = String(currentPatientCorrelativeData.correlativePatient).padStart(3, '0');
+    const analyzeRef = `${code}F${monthYear}${formattedCorrelative}`;
+
+    // f. Build the preview detail object
+    processedDetails.push({
+      order_id: orderId,
+      "number": line.number,
+      centre_medical: medicalCenter,
+      ref_patient: currentPatientCorrelativeData.patientRef.trim(),
+      name_patient: patientName,
+      ref_analyze: analyzeRef.trim(),
+      nomenclature_examen: nomenclature,
+      code: code.trim(), // Use the specific code found for this nomenclature
+      rejection_reason: null,
+    });
+  }
+
+  return processedDetails;
+};
+
+/**
+ * Lists the rejected lines of a preview, as returned to the operator.
+ */
+const toRejectedLines = (details: OrderDetailPreviewRow[]) => details
+  .filter(detail => detail.rejection_reason)
+  .map(detail => ({
+    number: detail.number,
+    medical_center: detail.centre_medical,
+    patient_name: detail.name_patient,
+    nomenclature: detail.nomenclature_examen,
+    reason: detail.rejection_reason!,
+  }));
+
 /**
  * Function that creates an order preview from a 3-column input format.
  * It generates the missing fields (number, references, code) and saves them in preview tables.
+ * Lines that can't be resolved (unknown or inactive medical center, empty patient name) are kept
+ * in the preview with their reason and listed in the response as rejectedLines.
  */
 export const createOrderPreview = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
   try {
@@ -89,160 +308,174 @@ export const createOrderPreview = (supabase: SupabaseClient) => async (req: Requ
 
     const orderId = orderPreviewData[0].order_id;
 
-    // Get a unique list of medical centers to find the last correlative number
-    const uniqueMedicalCenters = [...new Set(orderDetails.map(detail => detail.medical_center))];
-    
-    // Object to keep track of correlative numbers by medical center
-    const medicalCenterCorrelatives: { [key: string]: number } = {};
-
-    // 4. Find the last correlative number from the previous week for each medical center
-    for (const mc of uniqueMedicalCenters) {
-      let lastCorrelative = 0;
-      if (week > 1) {
-        // The week is greater than 1, we look for the last order from the previous week.
-        const { data: previousOrderPreviewData, error: prevOrderPreviewError } = await supabase
-          .from('orderpreview')
-          .select('order_id')
-          .eq('yearNumber', year)
-          .eq('monthNumber', month)
-          .eq('weekNumber', week - 1)
-          .eq('is_active', true)
-          .limit(1)
-          .single();
-
-        if (prevOrderPreviewError || !previousOrderPreviewData) {
-          console.error(`Error or no order preview found for week ${week - 1}. The correlative number will be reset.`);
-        } else {
-          const previousOrderId = previousOrderPreviewData.order_id;
-          
-          const { data: lastOrderData, error: lastOrderError } = await supabase
-            .from('orderdetailpreview')
-            .select('ref_patient')
-            .eq('centre_medical', mc)
-            .eq('order_id', previousOrderId)
-            .eq('is_active', true)
-            .order('number', { ascending: false })
-            .limit(1);
-
-          if (lastOrderError) {
-            console.error(`Error searching for the last correlative for medical center ${mc}:`, lastOrderError);
-          }
-          
-          if (lastOrderData && lastOrderData.length > 0) {
-            const lastRefPatient = lastOrderData[0].ref_patient;
-            const correlativeString = lastRefPatient.slice(-3);
-            lastCorrelative = parseInt(correlativeString, 10);
-          }
-        }
-      }
-      medicalCenterCorrelatives[mc] = lastCorrelative;
-    }
-
-    const processedDetails = [];
-    // Only store patient correlative data, not the code
-    const patientCorrelativeMap: { [key: string]: PatientCorrelativeData } = {};
-    let tableRowNumber = 0; // New counter for the table row number
-
-    // 5. Process each order detail from the input
-    for (const detail of orderDetails) {
-      tableRowNumber++; // Increment the table row number for each detail line
-      let currentPatientCorrelativeData = patientCorrelativeMap[detail.patient_name];
-      let correlativePatient = 0;
-      let patientRef = "";
-      
-      // If the patient has not been processed in this preview, we generate new correlatives.
-      if (!currentPatientCorrelativeData) {
-        // a. Get the medical center abbreviation
-        const { data: medicalCenterData, error: mcError } = await supabase
-          .from('centremedical')
-          .select('abbreviation')
-          .eq('name', detail.medical_center.trim())
-          .eq('is_active', true)
-          .single();
-
-        if (mcError || !medicalCenterData) {
-          console.error(`Medical center not found: ${detail.medical_center.trim()}`, mcError);
-          continue;
-        }
-        const abbreviation = (medicalCenterData as MedicalCenterAbbr).abbreviation;
-
-        // b. Generate the correlative numbers from the last value
-        medicalCenterCorrelatives[detail.medical_center.trim()]++;
-        correlativePatient = medicalCenterCorrelatives[detail.medical_center.trim()];
-
-        // c. Format the patient reference field
-        const monthYear = `${String(month).padStart(2, '0')}${String(year).slice(-2)}`;
-        const formattedCorrelative = String(correlativePatient).padStart(3, '0');
-        patientRef = `${abbreviation}HWF${monthYear}${formattedCorrelative}`;
-
-        // Save the patient correlative data for reuse
-        currentPatientCorrelativeData = {
-          correlativePatient,
-          patientRef,
-        };
-        patientCorrelativeMap[detail.patient_name.trim()] = currentPatientCorrelativeData;
-      } else {
-        // If the patient has already been processed, reuse the existing correlative data.
-        correlativePatient = currentPatientCorrelativeData.correlativePatient;
-        patientRef = currentPatientCorrelativeData.patientRef;
+    // 4. Generate the references of every line (the table row number is the position in the input)
+    let processedDetails;
+    try {
+      processedDetails = await resolvePreviewLines(
+        supabase,
+        { orderId, year, month },
+        orderDetails.map((detail, index) => ({ ...detail, number: index + 1 })),
+        []
+      );
+    } catch (resolveError: any) {
+      // Without the lookups or a reserved number no reference can be generated: revert the preview header
+      console.error(resolveError.message);
+      await supabase.from('orderpreview').delete().eq('order_id', orderId);
+      return res.status(500).json({ error: 'Error generating the order references. The order preview was reverted.' });
+    }
+
+    // 5. Insert the order preview details
+    const { data: detailData, error: detailError } = await supabase
+      .from('orderdetailpreview')
+      .insert(processedDetails)
+      .select('*')
+      .returns<OrderDetailPreviewRow[]>();
+
+    if (detailError) {
+      console.error('Error inserting the preview details:', detailError);
+      return res.status(500).json({ error: 'Error saving the order details.' });
+    }
+
+    const rejectedLines = toRejectedLines(detailData || []);
+
+    res.status(201).json({
+      message: rejectedLines.length > 0
+        ? `Order preview created with ${rejectedLines.length} rejected line(s).`
+        : 'Order preview created successfully.',
+      orderId,
+      orderDetails: (detailData || []).filter(detail => !detail.rejection_reason),
+      rejectedLines,
+    });
+
+  } catch (err: any) {
+    console.error('Exception in createOrderPreview:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+};
+
+/**
+ * Function that re-runs the rejected lines of an order preview, after the operator has fixed
+ * the medical centers (or sends corrected values by row number in the body).
+ * Lines that are still invalid stay rejected.
+ */
+export const retryRejectedPreviewLines = (supabase: SupabaseClient) => async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const corrections: { number: number; medical_center?: string; patient_name?: string }[] = req.body?.corrections || [];
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'Order ID is mandatory.' });
+    }
+
+    if (!Array.isArray(corrections)) {
+      return res.status(400).json({ error: 'corrections must be a list of { number, medical_center?, patient_name? }.' });
+    }
+
+    // 1. Get the preview and its lines
+    const { data: previewData, error: previewError } = await supabase
+      .from('orderpreview')
+      .select('order_id, yearNumber, monthNumber')
+      .eq('order_id', orderId)
+      .eq('is_active', true)
+      .single();
+
+    if (previewError) {
+      if (previewError.code === 'PGRST116') {
+        return res.status(404).json({ error: 'Order preview not found.' });
       }
-      
-      // d. Get the code from the nomenclature for EACH detail line
-      const { data: translationData, error: translationError } = await supabase
-        .from('translation_alias')
-        .select('translation(code_hw)')
-        .eq('name', detail.nomenclature.trim())
-        .eq('is_active', true)
-        .limit(1)
-        .single<TranslationAliasWithCode>();
-
-      let code = "NOT FOUND"; // Default value for code
-
-      if (translationError) {
-        // The alias was not found, so we log the error and keep the default value
-        console.error(`Code not found for nomenclature: ${detail.nomenclature.trim()}`, translationError);
-      } else if (translationData && translationData.translation && translationData.translation.code_hw.trim()) {
-        // Extract the code_hw from the nested object
-        code = translationData.translation.code_hw.trim();
+      console.error('Error fetching the order preview:', previewError);
+      return res.status(500).json({ error: 'Error fetching the order preview.' });
+    }
+
+    const { data: details, error: detailsError } = await supabase
+      .from('orderdetailpreview')
+      .select('*')
+      .eq('order_id', orderId)
+      .eq('is_active', true)
+      .returns<OrderDetailPreviewRow[]>();
+
+    if (detailsError) {
+      console.error('Error fetching preview details:', detailsError);
+      return res.status(500).json({ error: 'Error fetching the preview details.' });
+    }
+
+    const rejectedDetails = (details || []).filter(detail => detail.rejection_reason);
+    if (rejectedDetails.length === 0) {
+      return res.status(200).json({ message: 'The order preview has no rejected lines.', orderDetails: [], rejectedLines: [] });
+    }
+
+    // 2. Patients that already have a reference in this preview (same medical center and name) keep it
+    const knownPatients: KnownPatient[] = [];
+    for (const detail of details || []) {
+      const correlativeMatch = !detail.rejection_reason && detail.ref_patient ? /HWF\d{4}(\d+)$/.exec(detail.ref_patient) : null;
+      if (correlativeMatch) {
+        knownPatients.push({
+          medicalCenter: detail.centre_medical,
+          patientName: detail.name_patient,
+          correlativePatient: parseInt(correlativeMatch[1], 10),
+          patientRef: detail.ref_patient!,
+        });
       }
+    }
 
-      // e. Generate the analysis reference using the new code
-      const monthYear = `${String(month).padStart(2, '0')}${String(year).slice(-2)}`;
-      const formattedCorrelative = String(correlativePatient).padStart(3, '0');
-      const analyzeRef = `${code}F${monthYear}${formattedCorrelative}`;
+    // 3. Resolve the rejected lines again, with the operator's corrections
+    const linesToRetry: PreviewLineInput[] = rejectedDetails.map(detail => {
+      const correction = corrections.find(item => item.number === detail.number);
+      return {
+        number: detail.number,
+        medical_center: correction?.medical_center ?? detail.centre_medical,
+        patient_name: correction?.patient_name ?? detail.name_patient,
+        nomenclature: detail.nomenclature_examen,
+      };
+    });
 
-      // f. Build the preview detail object
-      processedDetails.push({
-        order_id: orderId,
-        "number": tableRowNumber, // Use the new table row number
-        centre_medical: detail.medical_center.trim(),
-        ref_patient: patientRef.trim(),
-        name_patient: detail.patient_name.trim(),
-        ref_analyze: analyzeRef.trim(),
-        nomenclature_examen: detail.nomenclature.trim(),
-        code: code.trim(), // Use the specific code found for this nomenclature
-      });
+    let processedDetails;
+    try {
+      processedDetails = await resolvePreviewLines(
+        supabase,
+        { orderId, year: previewData.yearNumber, month: previewData.monthNumber },
+        linesToRetry,
+        knownPatients
+      );
+    } catch (resolveError: any) {
+      console.error(resolveError.message);
+      return res.status(500).json({ error: 'Error generating the order references.' });
     }
 
-    // 6. Insert the order preview details
+    // 4. Replace the rejected rows with the new ones (same row numbers).
+    // The new rows are inserted first, so a failed insert leaves the rejected lines untouched.
     const { data: detailData, error: detailError } = await supabase
       .from('orderdetailpreview')
       .insert(processedDetails)
-      .select('*');
+      .select('*')
+      .returns<OrderDetailPreviewRow[]>();
 
     if (detailError) {
       console.error('Error inserting the preview details:', detailError);
       return res.status(500).json({ error: 'Error saving the order details.' });
     }
 
-    res.status(201).json({
-      message: 'Order preview created successfully.',
+    const { error: deleteError } = await supabase
+      .from('orderdetailpreview')
+      .delete()
+      .in('orderdetail_id', rejectedDetails.map(detail => detail.orderdetail_id));
+
+    if (deleteError) {
+      console.error('Error deleting the rejected preview details:', deleteError);
+      return res.status(500).json({ error: 'Error updating the rejected lines.' });
+    }
+
+    const rejectedLines = toRejectedLines(detailData || []);
+
+    res.status(200).json({
+      message: `${(detailData || []).length - rejectedLines.length} of ${rejectedDetails.length} rejected line(s) resolved.`,
       orderId,
-      orderDetails: detailData,
+      orderDetails: (detailData || []).filter(detail => !detail.rejection_reason),
+      rejectedLines,
     });
 
   } catch (err: any) {
-    console.error('Exception in createOrderPreview:', err);
+    console.error('Exception in retryRejectedPreviewLines:', err);
     res.status(500).json({ error: 'Internal server error.' });
   }
 };
@@ -362,8 +595,17 @@ export const confirmOrderPreview = (supabase: SupabaseClient) => async (req: Req
       return res.status(404).json({ error: 'Order preview details not found.' });
     }
 
+    // Rejected lines have no references and are not part of the order
+    const acceptedDetails = detailPreviewData.filter(detail => !detail.rejection_reason);
+    const skippedRejectedLines = detailPreviewData.length - acceptedDetails.length;
+
+    if (acceptedDetails.length === 0) {
+      return res.status(409).json({ error: 'Every line of the order preview is rejected. Fix them before confirming.' });
+    }
+
     // 2. Insert data into the final 'order' and 'orderdetail' tables
     // We assume the final tables have a compatible structure.
+    // A confirmed order goes straight to the lab, so the order and its lines start as 'sent'.
     const { data: finalOrderData, error: finalOrderError } = await supabase
       .from('order')
       .insert({
@@ -372,6 +614,7 @@ export const confirmOrderPreview = (supabase: SupabaseClient) => async (req: Req
         "yearNumber": previewData.yearNumber,
         "monthNumber": previewData.monthNumber,
         "weekNumber": previewData.weekNumber,
+        ...statusUpdate('sent'),
       })
       .select('order_id');
 
@@ -383,7 +626,7 @@ export const confirmOrderPreview = (supabase: SupabaseClient) => async (req: Req
     const finalOrderId = finalOrderData[0].order_id;
     
     // Map the detail data for the final insertion
-    const finalDetailData = detailPreviewData.map(detail => ({
+    const finalDetailData = acceptedDetails.map(detail => ({
       order_id: finalOrderId,
       "number": detail.number,
       centre_medical: detail.centre_medical,
@@ -392,6 +635,7 @@ export const confirmOrderPreview = (supabase: SupabaseClient) => async (req: Req
       ref_analyze: detail.ref_analyze,
       nomenclature_examen: detail.nomenclature_examen,
       code: detail.code,
+      ...statusUpdate('sent'),
     }));
 
     const { data: finalDetailsData, error: finalDetailsError } = await supabase
@@ -425,6 +669,7 @@ export const confirmOrderPreview = (supabase: SupabaseClient) => async (req: Req
     res.status(200).json({
       message: 'Order confirmed and saved successfully.',
       orderId: finalOrderId,
+      skippedRejectedLines,
     });
 
   } catch (err: any) {
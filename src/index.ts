@@ -4,12 +4,16 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js'; // Importa
 import { registerUser, loginUser } from './controllers/authController'; // Importamos los controladores
 import { authenticateToken } from './middlewares/authMiddleware'; // Importamos el middleware de autenticación
 import cors from 'cors';
-import multer from 'multer'; // Importamos multer
+import { createLabUploadMiddleware } from './middlewares/uploadMiddleware'; // Subidas de archivos a disco temporal
 import {
   createOrderWithDetails,
   getAllOrders,
   getOrderDetailsById,
   deleteOrder,
+  getOrderResultStatus,
+  relinkOrderResults,
+  linkResultToOrderLine,
+  updateOrderStatus,
 } from './controllers/orderController'; // Importamos orders
 
 import { // Importamos invoices
@@ -33,14 +37,23 @@ import { // Importamos los controladores administrativos
   getAdministrativeResultsById,
   deleteAdministrative,
   uploadLabFile,
+  exportAdministrativeLabFile,
+  exportAdministrativesLabFile,
 } from './controllers/administrativeController';
-import { confirmOrderPreview, createOrderPreview, deactivateOrderPreview, getAllOrderPreviews, getOrderDetailPreviews } from './controllers/orderPreviewController';
+import { confirmOrderPreview, createOrderPreview, deactivateOrderPreview, getAllOrderPreviews, getOrderDetailPreviews, retryRejectedPreviewLines } from './controllers/orderPreviewController';
 import { createMedicalCenter, deactivateMedicalCenter, getAllMedicalCenters, getMedicalCenterById, updateMedicalCenter } from './controllers/centreMedicalController';
 import { createTranslationLabo, deactivateTranslationLabo, getAllTranslationLabo, getTranslationLaboById, updateTranslationLabo } from './controllers/translationLaboController';
 import { createTranslation, deactivateTranslation, getAllTranslations, getTranslationById, updateTranslation } from './controllers/translationController';
 import { createTranslationHw, deactivateTranslationHw, getAllTranslationHw, getTranslationHwById, updateTranslationHw } from './controllers/translationHwController';
 
 import { getFinancialAnalysis } from './controllers/querieController';
+import { exportImportFhirBundle, searchDiagnosticReports } from './controllers/fhirController';
+import { getLabFile, getLabFileSignedUrl, serveSignedLabFile } from './controllers/labFileController';
+import { createFileStorage, FileStorage, verifyFileStorage } from './services/fileStorage';
+import { getImportJob, reprocessImports, rollbackImport } from './controllers/importController';
+import { createFilePassword, deactivateFilePassword, getAllFilePasswords, getFilePasswordById, updateFilePassword } from './controllers/filePasswordController';
+import { createImportJobWorker } from './services/importJobWorker';
+import { createDropFolderWatcher } from './services/dropFolderWatcher';
 
 // 1. Cargar variables de entorno
 dotenv.config();
@@ -61,6 +74,15 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !JWT_SECRET) {
 // Usamos '!' para afirmar que las variables no son nulas después de la verificación
 const supabase: SupabaseClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!);
 
+// Almacenamiento de los archivos originales de resultados (FILE_STORAGE_BACKEND: 'supabase' o 'local')
+const fileStorage: FileStorage = createFileStorage(supabase);
+
+// Proceso en segundo plano que ejecuta las importaciones encoladas por /upload-lab-file
+const importJobWorker = createImportJobWorker(supabase, fileStorage);
+
+// Ingesta de los archivos que los laboratorios dejan en DROP_FOLDER_DIR (desactivada si no está definida)
+const dropFolderWatcher = createDropFolderWatcher(supabase, fileStorage, importJobWorker);
+
 const app = express();
 
 // Configuración básica para permitir todas las solicitudes de cualquier origen.
@@ -70,13 +92,9 @@ app.use(cors());
 // 5. Middleware para parsear JSON en las peticiones
 app.use(express.json());
 
-// Usamos storage en memoria para que el buffer del archivo esté disponible directamente
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 5 * 1024 * 1024, // Limite de 5MB por archivo (ajusta si es necesario)
-  },
-});
+// Los archivos subidos se escriben en disco temporal (UPLOAD_TMP_DIR), no en memoria.
+// Límites configurables: UPLOAD_MAX_FILE_BYTES (200 MB por defecto) y UPLOAD_MAX_FILES (20)
+const uploadLabArchives = createLabUploadMiddleware();
 
 // 6. Rutas de la API
 
@@ -95,6 +113,11 @@ app.post('/orders', authenticateToken, createOrderWithDetails(supabase));
 app.get('/orders', authenticateToken, getAllOrders(supabase));
 app.get('/orders/:orderId/details', authenticateToken, getOrderDetailsById(supabase));
 app.delete('/orders/:orderId', authenticateToken, deleteOrder(supabase));
+app.patch('/orders/:orderId/status', authenticateToken, updateOrderStatus(supabase));
+// Resultados importados enlazados a las líneas del pedido (con resultado, pendientes, sin pedido)
+app.get('/orders/:orderId/results', authenticateToken, getOrderResultStatus(supabase));
+app.post('/orders/:orderId/relink-results', authenticateToken, relinkOrderResults(supabase));
+app.put('/results/:resultId/order-line', authenticateToken, linkResultToOrderLine(supabase));
 
 // --- Rutas de invoices (PROTEGIDAS por JWT) ---
 app.post('/invoices', authenticateToken, createInvoiceWithDetails(supabase));
@@ -107,14 +130,25 @@ app.patch('/invoices/:invoiceId/payment', authenticateToken, updateInvoicePaymen
 app.post('/administratives', authenticateToken, createAdministrativeWithResults(supabase));
 app.get('/administratives', authenticateToken, getAllAdministratives(supabase));
 app.get('/administratives/:administrativeId/results', authenticateToken, getAdministrativeResultsById(supabase));
+app.get('/administratives/:administrativeId/export.lab', authenticateToken, exportAdministrativeLabFile(supabase));
+app.post('/administratives/export.lab', authenticateToken, exportAdministrativesLabFile(supabase));
 app.delete('/administratives/:administrativeId', authenticateToken, deleteAdministrative(supabase));
-app.post('/upload-lab-file', authenticateToken, upload.single('file'), uploadLabFile(supabase));
+// One archive in 'file', or up to UPLOAD_MAX_FILES archives in 'files'
+app.post('/upload-lab-file', authenticateToken, uploadLabArchives, uploadLabFile(supabase, fileStorage, importJobWorker));
+// Progress of a queued lab file import
+app.get('/import-jobs/:jobId', authenticateToken, getImportJob(supabase));
+// Roll back a whole import (records, results and stored files)
+app.delete('/imports/:importId', authenticateToken, rollbackImport(supabase, fileStorage));
+// Reparse stored result files with the current parser (preview, or replace with confirm: true)
+app.post('/imports/reprocess', authenticateToken, reprocessImports(supabase, fileStorage));
 
 
 // --- NUEVA RUTA: Endpoint para crear una previsualización de órdenes
 app.get('/order-previews', authenticateToken, getAllOrderPreviews(supabase));
 app.get('/order-previews/:orderId/details', authenticateToken, getOrderDetailPreviews(supabase));
 app.post('/order-previews', authenticateToken, createOrderPreview(supabase));
+// Re-run the lines rejected for an unknown/inactive centre or an empty patient name
+app.post('/order-previews/:orderId/rejected-lines/retry', authenticateToken, retryRejectedPreviewLines(supabase));
 app.delete('/order-previews/:orderId', authenticateToken, deactivateOrderPreview(supabase));
 app.post('/orders/confirm/:orderId', authenticateToken, confirmOrderPreview(supabase));
 
@@ -186,9 +220,44 @@ app.delete('/translationAliases/:aliasId', deactivateTranslationAlias(supabase))
 
 app.get('/queries/financial', authenticateToken, getFinancialAnalysis(supabase));
 
+// --- FHIR R4 Routes (PROTEGIDAS por JWT) ---
+// Search the diagnostic reports of a patient
+app.get('/fhir/DiagnosticReport', authenticateToken, searchDiagnosticReports(supabase));
+// Export all the records of an import as a Bundle
+app.get('/fhir/imports/:importId/Bundle', authenticateToken, exportImportFhirBundle(supabase));
 
-// 7. Iniciar el servidor
-app.listen(PORT, () => {
-  console.log(`Servidor Express escuchando en http://localhost:${PORT}`);
-  console.log(`Conectado a Supabase: ${SUPABASE_URL}`);
-});
+// --- Archive Password Routes (PROTEGIDAS por JWT) ---
+// Create a new archive password (stored encrypted)
+app.post('/file-passwords', authenticateToken, createFilePassword(supabase));
+// Get all active archive passwords (never the passwords themselves)
+app.get('/file-passwords', authenticateToken, getAllFilePasswords(supabase));
+// Get a specific archive password by ID
+app.get('/file-passwords/:filepId', authenticateToken, getFilePasswordById(supabase));
+// Update or rotate an archive password by ID
+app.put('/file-passwords/:filepId', authenticateToken, updateFilePassword(supabase));
+// Deactivate an archive password by ID (soft delete)
+app.delete('/file-passwords/:filepId', authenticateToken, deactivateFilePassword(supabase));
+
+// --- Lab File Routes ---
+// Download through a signed URL (local storage only; the signature is the authorization)
+app.get('/lab-files/signed', serveSignedLabFile(fileStorage));
+// Download an original result file (PROTEGIDA por JWT)
+app.get('/lab-files/:labFileId', authenticateToken, getLabFile(supabase, fileStorage));
+// Get an expiring signed URL for an original result file (PROTEGIDA por JWT)
+app.get('/lab-files/:labFileId/signed-url', authenticateToken, getLabFileSignedUrl(supabase, fileStorage));
+
+
+// 7. Iniciar el servidor (solo si el almacenamiento de archivos es privado)
+verifyFileStorage(supabase)
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`Servidor Express escuchando en http://localhost:${PORT}`);
+      console.log(`Conectado a Supabase: ${SUPABASE_URL}`);
+      void importJobWorker.start(); // Reanuda los trabajos pendientes o interrumpidos
+      dropFolderWatcher.start().catch(err => console.error('No se pudo iniciar la carpeta de entrada:', err.message));
+    });
+  })
+  .catch(err => {
+    console.error('Error en el almacenamiento de archivos:', err.message);
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { mkdirSync } from 'fs';
+import multer from 'multer';
+import { getUploadTempDir } from '../services/importJobService';
+
+// Defaults for the upload limits (overridable with UPLOAD_MAX_FILE_BYTES / UPLOAD_MAX_FILES)
+const DEFAULT_MAX_FILE_BYTES = 200 * 1024 * 1024; // 200 MB per archive
+const DEFAULT_MAX_FILES = 20; // Archives per upload ('files' field)
+
+/**
+ * Creates the middleware that receives lab archives for /upload-lab-file.
+ * Archives are streamed to temporary files in UPLOAD_TMP_DIR instead of being kept in memory,
+ * so large yearly archives and concurrent uploads don't fill the RAM. The controller removes
+ * the temporary files once the request is answered.
+ * Accepts one archive in 'file' or up to UPLOAD_MAX_FILES archives in 'files'.
+ */
+export const createLabUploadMiddleware = (): RequestHandler => {
+  const maxFileBytes = Number(process.env.UPLOAD_MAX_FILE_BYTES) || DEFAULT_MAX_FILE_BYTES;
+  const maxFiles = Number(process.env.UPLOAD_MAX_FILES) || DEFAULT_MAX_FILES;
+  const tempDir = getUploadTempDir();
+  mkdirSync(tempDir, { recursive: true });
+
+  const upload = multer({
+    dest: tempDir,
+    limits: {
+      fileSize: maxFileBytes,
+      files: maxFiles + 1, // 'files' plus the single 'file' field
+    },
+  }).fields([{ name: 'file', maxCount: 1 }, { name: 'files', maxCount: maxFiles }]);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: any) => {
+      if (!err) {
+        return next();
+      }
+
+      // Multer removes the files it already wrote when an upload is aborted
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({ error: `The file exceeds the maximum upload size of ${maxFileBytes} bytes.` });
+        }
+        if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+          return res.status(400).json({ error: `Upload one archive in "file" or up to ${maxFiles} archives in "files".` });
+        }
+        return res.status(400).json({ error: `Invalid upload: ${err.message}.` });
+      }
+
+      console.error('Error receiving the uploaded file:', err);
+      res.status(500).json({ error: 'Internal server error receiving the file.' });
+    });
+  };
+};
@@ -0,0 +1,231 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getArchiveExtension, PLAIN_RESULT_EXTENSIONS, SUPPORTED_ARCHIVE_EXTENSIONS } from '../utils/archiveHandler';
+import { ParseMode } from '../utils/labFileParser';
+import { FileStorage } from './fileStorage';
+import { enqueueLabImport, ImportJob, ImportJobService } from './importJobService';
+import { ImportJobWorker } from './importJobWorker';
+
+// Subcarpetas de la carpeta de entrada
+const PROCESSING_DIR = 'processing'; // Archivos recogidos, con su trabajo en curso (<archivo>.job.json)
+const PROCESSED_DIR = 'processed';
+const FAILED_DIR = 'failed';
+
+// Sufijos de archivos temporales de los clientes SFTP/sincronización: nunca se recogen
+const TEMPORARY_SUFFIXES = ['.part', '.partial', '.tmp', '.filepart', '.crdownload'];
+
+export interface DropFolderWatcher {
+  start(): Promise<void>;
+}
+
+// Configuración leída del entorno al arrancar (dotenv se carga después de importar los módulos)
+interface DropFolderConfig {
+  rootDir: string;
+  pollIntervalMs: number;
+  stableMs: number; // Tiempo sin cambios de tamaño ni fecha para dar un archivo por completo
+  mode: ParseMode;
+}
+
+// Informe que se deja junto al archivo en processed/ o failed/ (<archivo>.report.json)
+interface DropFolderReport {
+  fileName: string;
+  status: 'completed' | 'failed' | 'duplicate' | 'rejected';
+  jobId?: string | null;
+  importId?: string | null;
+  message?: string | null;
+  result?: any;
+  finishedAt: string;
+}
+
+/**
+ * Crea el servicio que vigila la carpeta de entrada DROP_FOLDER_DIR.
+ * Cada archivo nuevo pasa por la misma cola de importación que /upload-lab-file y, cuando su
+ * trabajo termina, se mueve a processed/ o failed/ con un informe <archivo>.report.json.
+ * - Un archivo se recoge solo cuando su tamaño y fecha no cambian durante DROP_FOLDER_STABLE_MS
+ *   (30 s por defecto), para no leer archivos a medio escribir.
+ * - El estado vive en la propia carpeta: los archivos recogidos se mueven a processing/ junto con
+ *   el id de su trabajo, así que tras un reinicio se sigue donde se dejó sin importar nada dos veces.
+ * @param supabase Cliente de Supabase.
+ * @param fileStorage Almacenamiento donde la cola guarda la copia del archivo.
+ * @param importJobWorker Proceso de la cola, para avisarle de los trabajos nuevos.
+ */
+export const createDropFolderWatcher = (
+  supabase: SupabaseClient,
+  fileStorage: FileStorage,
+  importJobWorker: ImportJobWorker
+): DropFolderWatcher => {
+  let config: DropFolderConfig;
+  // Tamaño y fecha de cada archivo en el último recorrido
+  const lastSeen = new Map<string, { size: number; mtimeMs: number }>();
+  let scanning = false;
+
+  const dir = (subdir: string) => path.join(config.rootDir, subdir);
+  const jobFilePath = (fileName: string) => path.join(dir(PROCESSING_DIR), `${fileName}.job.json`);
+
+  // Nombre libre en la carpeta destino (un archivo con el mismo nombre puede llegar más de una vez)
+  const freeName = async (targetDir: string, fileName: string): Promise<string> => {
+    try {
+      await fs.access(path.join(targetDir, fileName));
+      return `${Date.now()}_${fileName}`;
+    } catch {
+      return fileName;
+    }
+  };
+
+  // Mueve un archivo de processing/ a processed/ o failed/ y escribe su informe
+  const finish = async (fileName: string, targetSubdir: string, report: DropFolderReport) => {
+    const targetDir = dir(targetSubdir);
+    const targetName = await freeName(targetDir, fileName);
+    await fs.writeFile(path.join(targetDir, `${targetName}.report.json`), JSON.stringify(report, null, 2));
+    await fs.rename(path.join(dir(PROCESSING_DIR), fileName), path.join(targetDir, targetName));
+    await fs.rm(jobFilePath(fileName), { force: true });
+    console.log(`Carpeta de entrada: ${fileName} -> ${targetSubdir}/${targetName} (${report.status})`);
+  };
+
+  // Encola un archivo de processing/ y guarda el id de su trabajo
+  const enqueue = async (fileName: string) => {
+    const enqueued = await enqueueLabImport(supabase, fileStorage, {
+      archiveName: fileName,
+      filePath: path.join(dir(PROCESSING_DIR), fileName),
+      mode: config.mode,
+      invoicedetailId: null,
+      uploadedBy: null,
+    });
+
+    if (enqueued.status === 'duplicate') {
+      await finish(fileName, PROCESSED_DIR, {
+        fileName,
+        status: 'duplicate',
+        importId: enqueued.labImport.import_id,
+        message: `Already imported as "${enqueued.labImport.archive_name}" (${enqueued.labImport.created_at}).`,
+        finishedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // Si el mismo contenido ya está en cola (p. ej. subido por la API), se espera a ese trabajo
+    const jobId = enqueued.status === 'queued' ? enqueued.jobId : enqueued.job.job_id;
+    await fs.writeFile(jobFilePath(fileName), JSON.stringify({ jobId }));
+    importJobWorker.wake();
+  };
+
+  // Cierra los archivos de processing/ cuyo trabajo ha terminado; encola los que no llegaron a tener trabajo
+  const checkProcessing = async () => {
+    const entries = await fs.readdir(dir(PROCESSING_DIR));
+    for (const fileName of entries) {
+      if (fileName.endsWith('.job.json')) continue;
+      try {
+        let jobId: string;
+        try {
+          jobId = JSON.parse(await fs.readFile(jobFilePath(fileName), 'utf8')).jobId;
+        } catch {
+          // El proceso se detuvo entre la recogida y la creación del trabajo
+          await enqueue(fileName);
+          continue;
+        }
+
+        const job: ImportJob | null = await ImportJobService.getJob(supabase, jobId);
+        if (!job) {
+          await fs.rm(jobFilePath(fileName), { force: true });
+          continue; // Se volverá a encolar en el siguiente recorrido
+        }
+        if (job.status === 'completed') {
+          await finish(fileName, PROCESSED_DIR, {
+            fileName, status: 'completed', jobId, importId: job.import_id, result: job.result, finishedAt: job.finished_at || new Date().toISOString(),
+          });
+        } else if (job.status === 'failed' || job.status === 'rejected') {
+          await finish(fileName, FAILED_DIR, {
+            fileName, status: job.status, jobId, importId: job.import_id, message: job.error_message, finishedAt: job.finished_at || new Date().toISOString(),
+          });
+        }
+      } catch (err: any) {
+        console.error(`Carpeta de entrada: error con ${fileName}:`, err.message);
+      }
+    }
+  };
+
+  // Recoge los archivos de la carpeta de entrada que ya están completos
+  const checkInbox = async () => {
+    const entries = await fs.readdir(config.rootDir, { withFileTypes: true });
+    const present = new Set<string>();
+
+    for (const entry of entries) {
+      const fileName = entry.name;
+      if (!entry.isFile() || fileName.startsWith('.') || TEMPORARY_SUFFIXES.some(suffix => fileName.toLowerCase().endsWith(suffix))) {
+        continue;
+      }
+      present.add(fileName);
+
+      try {
+        const stats = await fs.stat(path.join(config.rootDir, fileName));
+        const previous = lastSeen.get(fileName);
+        lastSeen.set(fileName, { size: stats.size, mtimeMs: stats.mtimeMs });
+
+        // Solo se recoge si no ha cambiado desde el recorrido anterior y lleva un tiempo sin tocarse
+        const isStable = previous && previous.size === stats.size && previous.mtimeMs === stats.mtimeMs
+          && Date.now() - stats.mtimeMs >= config.stableMs;
+        if (!isStable) continue;
+
+        const processingName = await freeName(dir(PROCESSING_DIR), fileName);
+        await fs.rename(path.join(config.rootDir, fileName), path.join(dir(PROCESSING_DIR), processingName));
+        lastSeen.delete(fileName);
+
+        const extension = getArchiveExtension(processingName);
+        if (![...SUPPORTED_ARCHIVE_EXTENSIONS, ...PLAIN_RESULT_EXTENSIONS].includes(extension)) {
+          await finish(processingName, FAILED_DIR, {
+            fileName: processingName,
+            status: 'rejected',
+            message: `Unsupported file format: ${extension}.`,
+            finishedAt: new Date().toISOString(),
+          });
+          continue;
+        }
+
+        await enqueue(processingName);
+      } catch (err: any) {
+        console.error(`Carpeta de entrada: error al recoger ${fileName}:`, err.message);
+      }
+    }
+
+    // Olvidar los archivos que ya no están
+    for (const fileName of lastSeen.keys()) {
+      if (!present.has(fileName)) lastSeen.delete(fileName);
+    }
+  };
+
+  const scan = async () => {
+    if (scanning) return;
+    scanning = true;
+    try {
+      await checkProcessing();
+      await checkInbox();
+    } catch (err: any) {
+      console.error('Excepción en la carpeta de entrada:', err.message);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  return {
+    start: async () => {
+      const rootDir = process.env.DROP_FOLDER_DIR;
+      if (!rootDir) return; // Servicio desactivado
+
+      config = {
+        rootDir: path.resolve(rootDir),
+        pollIntervalMs: Number(process.env.DROP_FOLDER_POLL_INTERVAL_MS) || 10000,
+        stableMs: Number(process.env.DROP_FOLDER_STABLE_MS) || 30000,
+        mode: process.env.DROP_FOLDER_MODE === 'strict' ? 'strict' : 'lenient',
+      };
+
+      for (const subdir of [PROCESSING_DIR, PROCESSED_DIR, FAILED_DIR]) {
+        await fs.mkdir(dir(subdir), { recursive: true });
+      }
+
+      console.log(`Vigilando la carpeta de entrada ${config.rootDir}`);
+      await scan();
+      setInterval(scan, config.pollIntervalMs);
+    },
+  };
+};
@@ -1,38 +1,108 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import { decryptSecret, encryptSecret } from '../utils/secretCipher';
 
 // Define la interfaz para la estructura de la tabla filepassword
-interface FilePassword {
+export interface FilePassword {
   filep_id: string;
-  password: string;
+  password?: string | null; // Columna antigua en texto plano; se migra a password_encrypted al leerla
+  password_encrypted?: string | null; // Contraseña cifrada con FILE_PASSWORD_KEY (ver secretCipher)
+  lab_identification?: string | null; // Laboratorio / remitente que usa esta contraseña
+  description?: string | null;
+  last_used_at?: string | null; // Última vez que abrió un archivo
+  use_count?: number;
   is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
 }
 
+// Contraseña descifrada, lista para probarla en un archivo comprimido
+export interface PasswordCandidate {
+  filep_id: string;
+  password: string;
+}
+
+// Columnas que se pueden devolver por la API: nunca la contraseña, ni cifrada
+export const FILE_PASSWORD_PUBLIC_COLUMNS = 'filep_id, lab_identification, description, last_used_at, use_count, is_active, created_at, updated_at';
+
 /**
  * Servicio para interactuar con la tabla de contraseñas de archivos.
  */
 export const FilePasswordService = {
   /**
-   * Obtiene todas las contraseñas activas de la base de datos.
+   * Obtiene las contraseñas activas descifradas, en el orden en que deben probarse:
+   * primero las que abrieron un archivo más recientemente, después las nunca usadas.
+   * Las filas antiguas en texto plano se cifran en ese momento.
    * @param supabase Cliente de Supabase.
-   * @returns Un array de strings con las contraseñas activas.
+   * @returns Las contraseñas con su filep_id; un array vacío si la consulta falla.
    */
-  getAllActivePasswords: async (supabase: SupabaseClient): Promise<string[]> => {
+  getPasswordsForTrial: async (supabase: SupabaseClient): Promise<PasswordCandidate[]> => {
     try {
       const { data, error } = await supabase
         .from('filepassword')
-        .select('password')
-        .eq('is_active', true); // Solo obtenemos contraseñas activas
+        .select('filep_id, password, password_encrypted')
+        .eq('is_active', true) // Solo obtenemos contraseñas activas
+        .order('last_used_at', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: true });
 
       if (error) {
         console.error('Error al obtener contraseñas de la base de datos:', error);
         return [];
       }
 
-      // Mapeamos los datos para devolver solo un array de strings
-      return data.map((row: Partial<FilePassword>) => row.password || '');
+      const candidates: PasswordCandidate[] = [];
+      for (const row of data as FilePassword[]) {
+        try {
+          if (row.password_encrypted) {
+            candidates.push({ filep_id: row.filep_id, password: decryptSecret(row.password_encrypted) });
+          } else if (row.password) {
+            candidates.push({ filep_id: row.filep_id, password: row.password });
+            await FilePasswordService.encryptLegacyPassword(supabase, row.filep_id, row.password);
+          }
+        } catch (rowError: any) {
+          // Una fila que no se puede descifrar (clave cambiada) no impide probar las demás
+          console.error(`No se pudo leer la contraseña ${row.filep_id}:`, rowError.message);
+        }
+      }
+      return candidates;
     } catch (err) {
-      console.error('Excepción en FilePasswordService.getAllActivePasswords:', err);
+      console.error('Excepción en FilePasswordService.getPasswordsForTrial:', err);
       return [];
     }
   },
+
+  /**
+   * Sustituye la contraseña en texto plano de una fila antigua por su versión cifrada.
+   * @param supabase Cliente de Supabase.
+   * @param filepId Id de la contraseña.
+   * @param password Contraseña en texto plano.
+   */
+  encryptLegacyPassword: async (supabase: SupabaseClient, filepId: string, password: string): Promise<void> => {
+    const { error } = await supabase
+      .from('filepassword')
+      .update({ password_encrypted: encryptSecret(password), password: null, updated_at: new Date().toISOString() })
+      .eq('filep_id', filepId);
+
+    if (error) {
+      console.error(`Error al cifrar la contraseña ${filepId}:`, error);
+    }
+  },
+
+  /**
+   * Registra que una contraseña abrió un archivo, para probarla antes la próxima vez.
+   * El contador se incrementa en la base de datos (mark_file_password_used), así que los usos
+   * simultáneos de la misma contraseña no se pierden.
+   * @param supabase Cliente de Supabase.
+   * @param filepId Id de la contraseña.
+   */
+  markPasswordUsed: async (supabase: SupabaseClient, filepId: string): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('mark_file_password_used', { _filep_id: filepId });
+
+      if (error) {
+        console.error(`Error al registrar el uso de la contraseña ${filepId}:`, error);
+      }
+    } catch (err) {
+      console.error('Excepción en FilePasswordService.markPasswordUsed:', err);
+    }
+  },
 };
@@ -0,0 +1,21 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { assertPrivateBucket } from './fileStorage';
+
+const supabaseWithBucket = (result: { data: { public: boolean } | null; error: { message: string } | null }) =>
+  ({ storage: { getBucket: async () => result } }) as unknown as SupabaseClient;
+
+describe('assertPrivateBucket', () => {
+  it('accepts a private bucket', async () => {
+    await expect(assertPrivateBucket(supabaseWithBucket({ data: { public: false }, error: null }), 'lab-result-files')).resolves.toBeUndefined();
+  });
+
+  it('rejects a public bucket', async () => {
+    await expect(assertPrivateBucket(supabaseWithBucket({ data: { public: true }, error: null }), 'lab-files')).rejects.toThrow('es público');
+  });
+
+  it('rejects a bucket that cannot be read', async () => {
+    await expect(assertPrivateBucket(supabaseWithBucket({ data: null, error: { message: 'Bucket not found' } }), 'lab-result-files'))
+      .rejects.toThrow('Bucket not found');
+  });
+});
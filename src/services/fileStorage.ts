@@ -0,0 +1,222 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+
+/**
+ * Almacenamiento de los archivos originales (.lab / HL7).
+ * Los archivos se identifican por una clave (ruta relativa) y nunca se exponen con URLs públicas:
+ * se sirven por un endpoint autenticado o mediante URLs firmadas que caducan.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Variantes en disco para archivos grandes (subidas): no cargan el archivo entero en memoria
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  getToFile(key: string, filePath: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  // Solo lo implementan los almacenamientos que sirven sus propias URLs firmadas (disco local)
+  verifySignedUrl?(key: string, expires: number, signature: string): boolean;
+}
+
+/**
+ * Almacenamiento en un bucket privado de Supabase Storage.
+ * @param supabase Cliente de Supabase.
+ * @param bucketName Nombre del bucket (debe ser privado).
+ */
+export const createSupabaseFileStorage = (supabase: SupabaseClient, bucketName: string): FileStorage => ({
+  put: async (key, data, contentType = 'application/octet-stream') => {
+    const { error } = await supabase.storage
+      .from(bucketName)
+      .upload(key, data, {
+        contentType: contentType,
+        upsert: true, // Sobrescribe si el archivo ya existe
+      });
+
+    if (error) {
+      throw new Error(`Error al subir archivo a Storage: ${error.message}`);
+    }
+  },
+
+  get: async (key) => {
+    const { data, error } = await supabase.storage
+      .from(bucketName)
+      .download(key);
+
+    if (error || !data) {
+      throw new Error(`Error al descargar archivo de Storage: ${error?.message}`);
+    }
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  putFile: async (key, filePath, contentType = 'application/octet-stream') => {
+    const { error } = await supabase.storage
+      .from(bucketName)
+      .upload(key, createReadStream(filePath), {
+        contentType: contentType,
+        upsert: true,
+        duplex: 'half', // Necesario para enviar un stream con fetch
+      });
+
+    if (error) {
+      throw new Error(`Error al subir archivo a Storage: ${error.message}`);
+    }
+  },
+
+  getToFile: async (key, filePath) => {
+    const { data, error } = await supabase.storage
+      .from(bucketName)
+      .download(key);
+
+    if (error || !data) {
+      throw new Error(`Error al descargar archivo de Storage: ${error?.message}`);
+    }
+    // Blob.stream() devuelve el ReadableStream global, que los tipos no dan por compatible con el de stream/web
+    await pipeline(Readable.fromWeb(data.stream() as ReadableStream<Uint8Array>), createWriteStream(filePath));
+  },
+
+  delete: async (key) => {
+    const { error } = await supabase.storage
+      .from(bucketName)
+      .remove([key]);
+
+    if (error) {
+      throw new Error(`Error al eliminar archivo de Storage: ${error.message}`);
+    }
+  },
+
+  getSignedUrl: async (key, expiresInSeconds) => {
+    const { data, error } = await supabase.storage
+      .from(bucketName)
+      .createSignedUrl(key, expiresInSeconds);
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Error al generar la URL firmada: ${error?.message}`);
+    }
+    return data.signedUrl;
+  },
+});
+
+/**
+ * Comprueba que el bucket de Supabase Storage existe y es privado. Un bucket público serviría
+ * los archivos de resultados a cualquiera que conozca la ruta, sin pasar por las URLs firmadas.
+ * @param supabase Cliente de Supabase.
+ * @param bucketName Nombre del bucket.
+ * @throws Error si el bucket no se puede leer o es público.
+ */
+export const assertPrivateBucket = async (supabase: SupabaseClient, bucketName: string): Promise<void> => {
+  const { data, error } = await supabase.storage.getBucket(bucketName);
+
+  if (error || !data) {
+    throw new Error(`No se pudo comprobar el bucket ${bucketName}: ${error?.message}`);
+  }
+  if (data.public) {
+    throw new Error(`El bucket ${bucketName} es público; los archivos de resultados deben guardarse en un bucket privado.`);
+  }
+};
+
+/**
+ * Almacenamiento en disco local. Las URLs firmadas apuntan a /lab-files/signed
+ * y se validan con un HMAC de la clave y la fecha de caducidad.
+ * @param rootDir Directorio raíz donde se guardan los archivos.
+ * @param signingSecret Secreto para firmar las URLs.
+ */
+export const createLocalFileStorage = (rootDir: string, signingSecret: string): FileStorage => {
+  const root = path.resolve(rootDir);
+
+  // Resuelve la clave dentro del directorio raíz, rechazando rutas que se salgan de él
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Clave de almacenamiento no válida: ${key}`);
+    }
+    return filePath;
+  };
+
+  const sign = (key: string, expires: number) =>
+    createHmac('sha256', signingSecret).update(`${key}\n${expires}`).digest('hex');
+
+  return {
+    put: async (key, data) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    get: async (key) => fs.readFile(resolveKey(key)),
+
+    putFile: async (key, filePath) => {
+      const targetPath = resolveKey(key);
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.copyFile(filePath, targetPath);
+    },
+
+    getToFile: async (key, filePath) => {
+      await fs.copyFile(resolveKey(key), filePath);
+    },
+
+    delete: async (key) => {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+
+    getSignedUrl: async (key, expiresInSeconds) => {
+      resolveKey(key);
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const query = new URLSearchParams({ key, expires: String(expires), signature: sign(key, expires) });
+      return `/lab-files/signed?${query.toString()}`;
+    },
+
+    verifySignedUrl: (key, expires, signature) => {
+      if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+        return false;
+      }
+      const expected = Buffer.from(sign(key, expires));
+      const received = Buffer.from(signature);
+      return expected.length === received.length && timingSafeEqual(expected, received);
+    },
+  };
+};
+
+// Bucket privado por defecto. 'lab-files' era el bucket público de las primeras versiones y no se reutiliza.
+export const DEFAULT_FILE_STORAGE_BUCKET = 'lab-result-files';
+
+/**
+ * Crea el almacenamiento configurado en las variables de entorno:
+ * FILE_STORAGE_BACKEND ('supabase' por defecto, o 'local'), FILE_STORAGE_BUCKET ('lab-result-files', privado),
+ * y para 'local' FILE_STORAGE_DIR ('./storage') y FILE_STORAGE_SIGNING_SECRET (obligatorio).
+ * Las URLs firmadas tienen su propio secreto: nunca se firman con el de los tokens de sesión.
+ * @param supabase Cliente de Supabase.
+ * @throws Error si el backend no está soportado o falta el secreto de firma.
+ */
+export const createFileStorage = (supabase: SupabaseClient): FileStorage => {
+  const backend = process.env.FILE_STORAGE_BACKEND || 'supabase';
+
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseFileStorage(supabase, process.env.FILE_STORAGE_BUCKET || DEFAULT_FILE_STORAGE_BUCKET);
+    case 'local': {
+      const signingSecret = process.env.FILE_STORAGE_SIGNING_SECRET;
+      if (!signingSecret) {
+        throw new Error('FILE_STORAGE_SIGNING_SECRET debe estar definida para el almacenamiento local.');
+      }
+      return createLocalFileStorage(process.env.FILE_STORAGE_DIR || './storage', signingSecret);
+    }
+    default:
+      throw new Error(`FILE_STORAGE_BACKEND no soportado: ${backend}`);
+  }
+};
+
+/**
+ * Comprobaciones de arranque del almacenamiento configurado: con el backend 'supabase', el bucket debe ser privado.
+ * @param supabase Cliente de Supabase.
+ * @throws Error si la comprobación falla.
+ */
+export const verifyFileStorage = async (supabase: SupabaseClient): Promise<void> => {
+  if ((process.env.FILE_STORAGE_BACKEND || 'supabase') === 'supabase') {
+    await assertPrivateBucket(supabase, process.env.FILE_STORAGE_BUCKET || DEFAULT_FILE_STORAGE_BUCKET);
+  }
+};
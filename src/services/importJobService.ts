@@ -0,0 +1,284 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as os from 'os';
+import * as path from 'path';
+import { ParseMode } from '../utils/labFileParser';
+import { FileStorage } from './fileStorage';
+import { LabImport, LabImportService, computeSha256File } from './labImportService';
+import { LabImportProgress, LabImportSummary } from './labImportProcessor';
+
+// 'rejected': el archivo no respeta un límite de seguridad (error del archivo enviado, no del servidor)
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'rejected';
+
+// Define la interfaz para la estructura de la tabla labimportjob
+export interface ImportJob {
+  job_id: string;
+  status: ImportJobStatus;
+  archive_name: string;
+  archive_sha256: string;
+  archive_storage_key: string; // Copia del archivo subido en el FileStorage, hasta que el trabajo termina
+  mode: ParseMode;
+  invoicedetail_id?: string | null;
+  uploaded_by?: string | null;
+  import_id?: string | null;
+  files_total: number;
+  files_done: number;
+  blocks_inserted: number;
+  skipped_files: string[];
+  errors: string[];
+  result?: LabImportSummary | null;
+  error_message?: string | null;
+  error_status?: number | null; // Código HTTP del rechazo (413, 400, 422) en los trabajos 'rejected'
+  created_at?: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+}
+
+/**
+ * Servicio para la cola persistente de trabajos de importación (tabla labimportjob).
+ * Al guardarse en base de datos, los trabajos sobreviven a un reinicio del proceso.
+ */
+export const ImportJobService = {
+  /**
+   * Crea un trabajo en estado 'queued'.
+   * @param supabase Cliente de Supabase.
+   * @param job Datos del archivo subido y opciones de importación.
+   * @returns El job_id creado.
+   * @throws Error si la inserción falla.
+   */
+  createJob: async (
+    supabase: SupabaseClient,
+    job: Pick<ImportJob, 'archive_name' | 'archive_sha256' | 'archive_storage_key' | 'mode' | 'invoicedetail_id' | 'uploaded_by'>
+  ): Promise<string> => {
+    const { data, error } = await supabase
+      .from('labimportjob')
+      .insert({ ...job, status: 'queued' })
+      .select('job_id');
+
+    if (error || !data || data.length === 0) {
+      throw new Error(`Error al crear el trabajo de importación: ${error?.message}`);
+    }
+    return data[0].job_id;
+  },
+
+  /**
+   * Obtiene un trabajo por su id.
+   * @returns El trabajo, o null si no existe.
+   * @throws Error si la consulta falla.
+   */
+  getJob: async (supabase: SupabaseClient, jobId: string): Promise<ImportJob | null> => {
+    const { data, error } = await supabase
+      .from('labimportjob')
+      .select('*')
+      .eq('job_id', jobId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error al obtener el trabajo de importación: ${error.message}`);
+    }
+    return data || null;
+  },
+
+  /**
+   * Busca un trabajo pendiente o en curso del mismo archivo (mismo SHA-256).
+   * @returns El trabajo, o null si no hay ninguno.
+   * @throws Error si la consulta falla.
+   */
+  findPendingJobByHash: async (supabase: SupabaseClient, archiveSha256: string): Promise<ImportJob | null> => {
+    const { data, error } = await supabase
+      .from('labimportjob')
+      .select('*')
+      .eq('archive_sha256', archiveSha256)
+      .in('status', ['queued', 'running'])
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error al buscar trabajos de importación: ${error.message}`);
+    }
+    return data && data.length > 0 ? data[0] : null;
+  },
+
+  /**
+   * Toma el trabajo en cola más antiguo y lo marca como 'running'.
+   * La actualización solo se aplica si el trabajo sigue en 'queued', por lo que
+   * dos procesos no pueden tomar el mismo trabajo.
+   * @returns El trabajo tomado, o null si la cola está vacía.
+   * @throws Error si la consulta falla.
+   */
+  claimNextJob: async (supabase: SupabaseClient): Promise<ImportJob | null> => {
+    const { data: queued, error } = await supabase
+      .from('labimportjob')
+      .select('job_id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error al leer la cola de importación: ${error.message}`);
+    }
+    if (!queued || queued.length === 0) {
+      return null;
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('labimportjob')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('job_id', queued[0].job_id)
+      .eq('status', 'queued')
+      .select('*');
+
+    if (claimError) {
+      throw new Error(`Error al tomar el trabajo de importación: ${claimError.message}`);
+    }
+    return claimed && claimed.length > 0 ? claimed[0] : null;
+  },
+
+  /**
+   * Vuelve a poner en cola los trabajos que quedaron en 'running' (el proceso se detuvo a mitad).
+   * Se reanudan con su import_id: los archivos ya importados se saltan por su hash y el que quedó
+   * a medias se borra y se vuelve a importar (ver LabImportService.deleteUnfinishedFiles).
+   * @returns El número de trabajos reencolados.
+   * @throws Error si la actualización falla.
+   */
+  requeueInterruptedJobs: async (supabase: SupabaseClient): Promise<number> => {
+    const { data, error } = await supabase
+      .from('labimportjob')
+      .update({ status: 'queued' })
+      .eq('status', 'running')
+      .select('job_id');
+
+    if (error) {
+      throw new Error(`Error al reencolar trabajos de importación: ${error.message}`);
+    }
+    return data ? data.length : 0;
+  },
+
+  /**
+   * Guarda el progreso de un trabajo en curso.
+   * @throws Error si la actualización falla.
+   */
+  updateProgress: async (supabase: SupabaseClient, jobId: string, progress: LabImportProgress): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportjob')
+      .update({
+        import_id: progress.importId,
+        files_total: progress.filesTotal,
+        files_done: progress.filesDone,
+        blocks_inserted: progress.blocksInserted,
+        skipped_files: progress.skippedFiles,
+        errors: progress.errors,
+      })
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new Error(`Error al guardar el progreso del trabajo ${jobId}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Marca un trabajo como terminado, con el resumen de la importación.
+   * @throws Error si la actualización falla.
+   */
+  completeJob: async (supabase: SupabaseClient, jobId: string, summary: LabImportSummary): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportjob')
+      .update({
+        status: 'completed',
+        import_id: summary.importId,
+        blocks_inserted: summary.blocksInserted,
+        skipped_files: summary.skippedFiles,
+        errors: summary.errors,
+        result: summary,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new Error(`Error al completar el trabajo ${jobId}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Marca un trabajo como fallido (el archivo no se pudo descomprimir o registrar).
+   * @throws Error si la actualización falla.
+   */
+  failJob: async (supabase: SupabaseClient, jobId: string, errorMessage: string): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportjob')
+      .update({ status: 'failed', error_message: errorMessage, finished_at: new Date().toISOString() })
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new Error(`Error al marcar como fallido el trabajo ${jobId}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Marca un trabajo como rechazado: el archivo supera un límite de seguridad o contiene rutas inseguras.
+   * @param errorStatus Código HTTP con el que se habría rechazado el archivo en la subida.
+   * @throws Error si la actualización falla.
+   */
+  rejectJob: async (supabase: SupabaseClient, jobId: string, errorMessage: string, errorStatus: number): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportjob')
+      .update({ status: 'rejected', error_message: errorMessage, error_status: errorStatus, finished_at: new Date().toISOString() })
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new Error(`Error al marcar como rechazado el trabajo ${jobId}: ${error.message}`);
+    }
+  },
+};
+
+/**
+ * Directorio de los archivos temporales de las subidas y de los trabajos en curso:
+ * UPLOAD_TMP_DIR, o lab-uploads dentro del directorio temporal del sistema.
+ */
+export const getUploadTempDir = (): string => process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'lab-uploads');
+
+// Resultado de encolar un archivo: encolado, ya importado, o ya en cola/en curso
+export type EnqueueLabImportResult =
+  | { status: 'queued'; jobId: string }
+  | { status: 'duplicate'; labImport: LabImport }
+  | { status: 'pending'; job: ImportJob };
+
+/**
+ * Encola la importación de un archivo subido (o recogido de la carpeta de entrada).
+ * El archivo se copia al FileStorage para que el trabajo sobreviva a un reinicio.
+ * No se encola si el mismo contenido ya está importado o en cola.
+ * @param supabase Cliente de Supabase.
+ * @param fileStorage Almacenamiento donde se guarda la copia del archivo.
+ * @param upload Nombre, ruta del archivo en disco y opciones de importación. El archivo no se borra:
+ *   es responsabilidad de quien llama (archivo temporal de la subida o de la carpeta de entrada).
+ * @throws Error si falla la comprobación de duplicados, la copia o la creación del trabajo.
+ */
+export const enqueueLabImport = async (
+  supabase: SupabaseClient,
+  fileStorage: FileStorage,
+  upload: { archiveName: string; filePath: string; mode: ParseMode; invoicedetailId: string | null; uploadedBy: string | null; contentType?: string }
+): Promise<EnqueueLabImportResult> => {
+  // Duplicados por contenido: un archivo renombrado sigue siendo un duplicado, otro distinto con el mismo nombre no
+  const archiveSha256 = await computeSha256File(upload.filePath);
+
+  const labImport = await LabImportService.findActiveImportByHash(supabase, archiveSha256);
+  if (labImport) {
+    return { status: 'duplicate', labImport };
+  }
+
+  const pendingJob = await ImportJobService.findPendingJobByHash(supabase, archiveSha256);
+  if (pendingJob) {
+    return { status: 'pending', job: pendingJob };
+  }
+
+  const archiveStorageKey = `import_jobs/${Date.now()}_${path.basename(upload.archiveName)}`;
+  await fileStorage.putFile(archiveStorageKey, upload.filePath, upload.contentType);
+
+  const jobId = await ImportJobService.createJob(supabase, {
+    archive_name: upload.archiveName,
+    archive_sha256: archiveSha256,
+    archive_storage_key: archiveStorageKey,
+    mode: upload.mode,
+    invoicedetail_id: upload.invoicedetailId,
+    uploaded_by: upload.uploadedBy,
+  });
+  return { status: 'queued', jobId };
+};
@@ -0,0 +1,108 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ArchiveLimitError } from '../utils/archiveHandler';
+import { FileStorage } from './fileStorage';
+import { getUploadTempDir, ImportJob, ImportJobService } from './importJobService';
+import { processLabArchive } from './labImportProcessor';
+
+export interface ImportJobWorker {
+  start(): Promise<void>;
+  wake(): void;
+}
+
+/**
+ * Crea el proceso en segundo plano que ejecuta los trabajos de importación, uno cada vez.
+ * Consulta la cola cada IMPORT_JOB_POLL_INTERVAL_MS (5 s por defecto); wake() la consulta en el acto.
+ * @param supabase Cliente de Supabase.
+ * @param fileStorage Almacenamiento con los archivos subidos y donde se guardan los .lab.
+ */
+export const createImportJobWorker = (supabase: SupabaseClient, fileStorage: FileStorage): ImportJobWorker => {
+  const pollIntervalMs = Number(process.env.IMPORT_JOB_POLL_INTERVAL_MS) || 5000;
+  let draining = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const runJob = async (job: ImportJob) => {
+    console.log(`Procesando trabajo de importación ${job.job_id} (${job.archive_name})`);
+    // El archivo se descarga a disco y se descomprime desde ahí, sin cargarlo entero en memoria
+    const tempPath = path.join(getUploadTempDir(), `import_job_${job.job_id}`);
+    try {
+      await fs.mkdir(path.dirname(tempPath), { recursive: true });
+      await fileStorage.getToFile(job.archive_storage_key, tempPath);
+      const summary = await processLabArchive(supabase, fileStorage, {
+        archiveName: job.archive_name,
+        archiveSha256: job.archive_sha256,
+        filePath: tempPath,
+        mode: job.mode,
+        invoicedetailId: job.invoicedetail_id || null,
+        uploadedBy: job.uploaded_by || null,
+        importId: job.import_id, // Presente si el trabajo se interrumpió y se reanuda
+      }, async progress => {
+        // Un fallo al guardar el progreso no debe interrumpir la importación
+        try {
+          await ImportJobService.updateProgress(supabase, job.job_id, progress);
+        } catch (progressError: any) {
+          console.error(progressError.message);
+        }
+      });
+      await ImportJobService.completeJob(supabase, job.job_id, summary);
+    } catch (err: any) {
+      console.error(`Error en el trabajo de importación ${job.job_id}:`, err.message);
+      // Los límites de seguridad son un problema del archivo enviado, no un fallo del servidor
+      if (err instanceof ArchiveLimitError) {
+        await ImportJobService.rejectJob(supabase, job.job_id, err.message, err.statusCode);
+      } else {
+        await ImportJobService.failJob(supabase, job.job_id, err.message);
+      }
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+
+    // La copia del archivo subido ya no hace falta; los .lab quedan guardados por separado
+    try {
+      await fileStorage.delete(job.archive_storage_key);
+    } catch (deleteError: any) {
+      console.error(`No se pudo eliminar el archivo del trabajo ${job.job_id}:`, deleteError.message);
+    }
+  };
+
+  const drainQueue = async () => {
+    if (draining) return;
+    draining = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    try {
+      let job: ImportJob | null;
+      while ((job = await ImportJobService.claimNextJob(supabase))) {
+        await runJob(job);
+      }
+    } catch (err: any) {
+      console.error('Excepción en la cola de importación:', err.message);
+    } finally {
+      draining = false;
+      timer = setTimeout(drainQueue, pollIntervalMs);
+    }
+  };
+
+  return {
+    start: async () => {
+      // Los trabajos en 'running' al arrancar son de una ejecución anterior que se detuvo
+      try {
+        const requeued = await ImportJobService.requeueInterruptedJobs(supabase);
+        if (requeued > 0) {
+          console.log(`${requeued} trabajo(s) de importación interrumpidos vuelven a la cola.`);
+        }
+      } catch (err: any) {
+        console.error(err.message);
+      }
+      await drainQueue();
+    },
+
+    wake: () => {
+      void drainQueue();
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase } from '../testing/fakeSupabase';
+import { LabEncodingService } from './labEncodingService';
+
+describe('getEncodingOverrides', () => {
+  it('returns the active overrides by lab, ignoring unsupported encodings', async () => {
+    const { supabase } = createFakeSupabase({
+      labencoding: [
+        { labencoding_id: 'e1', lab_identification: 'LAB01 ', encoding: 'WINDOWS-1252', is_active: true },
+        { labencoding_id: 'e2', lab_identification: 'LAB02', encoding: 'utf-16le', is_active: true },
+        { labencoding_id: 'e3', lab_identification: 'LAB03', encoding: 'ebcdic', is_active: true },
+        { labencoding_id: 'e4', lab_identification: 'LAB04', encoding: 'utf-8', is_active: false },
+      ],
+    });
+
+    expect(await LabEncodingService.getEncodingOverrides(supabase)).toEqual({ LAB01: 'windows-1252', LAB02: 'utf-16le' });
+  });
+
+  it('returns no overrides when the table cannot be read', async () => {
+    const { supabase } = createFakeSupabase();
+    const failingSupabase = {
+      ...supabase,
+      from: () => ({ select: () => ({ eq: async () => ({ data: null, error: { message: 'permission denied' } }) }) }),
+    } as unknown as typeof supabase;
+
+    expect(await LabEncodingService.getEncodingOverrides(failingSupabase)).toEqual({});
+  });
+});
@@ -0,0 +1,49 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LabFileEncoding, SUPPORTED_ENCODINGS } from '../utils/encodingDetector';
+
+// Define la interfaz para la estructura de la tabla labencoding
+interface LabEncoding {
+  labencoding_id: string;
+  lab_identification: string;
+  encoding: string;
+  is_active: boolean;
+}
+
+/**
+ * Servicio para leer la codificación configurada por laboratorio emisor.
+ */
+export const LabEncodingService = {
+  /**
+   * Obtiene las codificaciones forzadas activas, indexadas por lab_identification.
+   * Las filas con una codificación no soportada se ignoran.
+   * @param supabase Cliente de Supabase.
+   * @returns Un objeto { lab_identification: encoding }.
+   */
+  getEncodingOverrides: async (supabase: SupabaseClient): Promise<{ [labIdentification: string]: LabFileEncoding }> => {
+    try {
+      const { data, error } = await supabase
+        .from('labencoding')
+        .select('lab_identification, encoding')
+        .eq('is_active', true); // Solo configuraciones activas
+
+      if (error) {
+        console.error('Error al obtener codificaciones de laboratorio:', error);
+        return {};
+      }
+
+      const overrides: { [labIdentification: string]: LabFileEncoding } = {};
+      for (const row of data as Partial<LabEncoding>[]) {
+        const encoding = (row.encoding || '').toLowerCase() as LabFileEncoding;
+        if (row.lab_identification && SUPPORTED_ENCODINGS.includes(encoding)) {
+          overrides[row.lab_identification.trim()] = encoding;
+        } else {
+          console.warn(`Codificación no soportada para el laboratorio ${row.lab_identification}: ${row.encoding}`);
+        }
+      }
+      return overrides;
+    } catch (err) {
+      console.error('Excepción en LabEncodingService.getEncodingOverrides:', err);
+      return {};
+    }
+  },
+};
@@ -0,0 +1,373 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import { parseLabFile, LabFileParseResult, ParseDiagnostic, ParseMode } from '../utils/labFileParser';
+import { parseHl7Message, isHl7Message } from '../utils/hl7Parser';
+import { decompressArchive, getArchiveExtension, ArchiveLimitError } from '../utils/archiveHandler';
+import { decodeLabFile, peekLabIdentification, LabFileEncoding } from '../utils/encodingDetector';
+import { FilePasswordService } from './filePasswordService';
+import { LabEncodingService } from './labEncodingService';
+import { LabImportService, LabImportFile, computeSha256 } from './labImportService';
+import { FileStorage } from './fileStorage';
+import { OrderLinkSummary, OrderResultLinkService } from './orderResultLinkService';
+
+// Extensions of the result files processed inside an uploaded archive
+export const LAB_FILE_EXTENSIONS = ['.lab'];
+export const HL7_FILE_EXTENSIONS = ['.hl7', '.oru'];
+
+// An uploaded archive (or plain result file) to import
+export interface LabImportRequest {
+  archiveName: string;
+  archiveSha256: string;
+  filePath: string; // Archive on local disk, decompressed from there without loading it whole
+  mode: ParseMode;
+  invoicedetailId: string | null;
+  uploadedBy: string | null;
+  importId?: string | null; // Set when resuming an interrupted import
+}
+
+// Running counters, reported after every result file
+export interface LabImportProgress {
+  importId: string;
+  filesTotal: number;
+  filesDone: number;
+  blocksInserted: number;
+  skippedFiles: string[];
+  errors: string[];
+}
+
+// Final outcome of an import (same shape the upload endpoint used to answer with)
+export interface LabImportSummary {
+  importId: string;
+  processedFilesCount: number;
+  blocksInserted: number; // Records inserted by the import, including those inserted before an interruption
+  totalErrors: number;
+  skippedFiles: string[];
+  duplicates: { labFileName: string; duplicateOfImportId: string; duplicateOfFileName: string; }[];
+  labFiles: { labFileName: string; labFileId: string; status: LabImportFile['status']; }[];
+  rejectedFiles: string[];
+  processedRecords: { administrativeId: string; labFileName: string; storageKey: string; }[];
+  errors: string[];
+  fileDiagnostics: { labFileName: string; encoding: LabFileEncoding; diagnostics: ParseDiagnostic[]; }[];
+  orderLinks: OrderLinkSummary; // Results linked to the order lines that requested them
+}
+
+/**
+ * Decodes a result file (BOM, per-lab override or UTF-8/Windows-1252 heuristic) and parses it.
+ * HL7 files are recognised by their extension or by a leading MSH segment.
+ * @param fileName Name of the result file (for its extension)
+ * @param data Raw content of the file
+ * @param encodingOverrides Encodings configured per lab (LabEncodingService)
+ * @param mode Parsing mode
+ */
+export const parseResultFile = (
+  fileName: string,
+  data: Buffer,
+  encodingOverrides: { [labIdentification: string]: LabFileEncoding },
+  mode: ParseMode
+): LabFileParseResult & { encoding: LabFileEncoding; sourceFormat: 'lab' | 'hl7' } => {
+  const labIdentification = peekLabIdentification(data);
+  const { content, encoding } = decodeLabFile(data, labIdentification ? encodingOverrides[labIdentification] : null);
+  const sourceFormat = HL7_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()) || isHl7Message(content) ? 'hl7' : 'lab';
+  const { blocks, diagnostics } = sourceFormat === 'hl7' ? parseHl7Message(content, mode) : parseLabFile(content, mode);
+  return { blocks, diagnostics, encoding, sourceFormat };
+};
+
+/**
+ * Decompresses an uploaded archive and imports every .lab / HL7 file in it:
+ * stores the original file, parses it, saves its diagnostics and inserts the
+ * administrative and result rows. Files already imported (same SHA-256) are skipped.
+ * Throws if the archive can't be decompressed (ArchiveLimitError for the safety limits)
+ * or the import can't be registered; per-file problems are collected in the summary.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend for the original result files
+ * @param request The archive and its import options
+ * @param onProgress Called once the import is registered and after every result file
+ */
+export const processLabArchive = async (
+  supabase: SupabaseClient,
+  fileStorage: FileStorage,
+  request: LabImportRequest,
+  onProgress: (progress: LabImportProgress) => Promise<void> | void = () => {}
+): Promise<LabImportSummary> => {
+  const { archiveName: zipFileName, mode, invoicedetailId: invoicedetail_id } = request;
+  const fileExtension = getArchiveExtension(zipFileName); // Recognises double extensions such as .tar.gz
+
+  let decompressedFiles: { path: string; data: Buffer }[] = [];
+  const usedPasswordIds: string[] = []; // Stored passwords that opened the archive (or nested archives)
+  try {
+    // Recently successful passwords come first
+    const passwordCandidates = await FilePasswordService.getPasswordsForTrial(supabase);
+    const passwordsToTry = ['', ...passwordCandidates.map(candidate => candidate.password)]; // Try without password first
+
+    decompressedFiles = await decompressArchive(request.filePath, fileExtension, passwordsToTry, zipFileName, undefined, password => {
+      const candidate = passwordCandidates.find(c => c.password === password);
+      if (candidate && !usedPasswordIds.includes(candidate.filep_id)) usedPasswordIds.push(candidate.filep_id);
+    });
+
+  } catch (decompressionError: any) {
+    console.error('Error during decompression:', decompressionError.message);
+    // Safety limits (size, entry count, ratio, nesting, unsafe paths) carry their own 4xx status
+    if (decompressionError instanceof ArchiveLimitError) {
+      throw decompressionError;
+    }
+    throw new Error(`Error decompressing the file: ${decompressionError.message}. Verify password or format.`);
+  }
+
+  const resultFiles = decompressedFiles.filter(file => {
+    const resultFileExtension = path.extname(file.path).toLowerCase();
+    if (!LAB_FILE_EXTENSIONS.includes(resultFileExtension) && !HL7_FILE_EXTENSIONS.includes(resultFileExtension)) {
+      console.warn(`File ignored (not .lab or HL7): ${file.path}`);
+      return false;
+    }
+    return true;
+  });
+
+  for (const filepId of usedPasswordIds) {
+    await FilePasswordService.markPasswordUsed(supabase, filepId);
+  }
+
+  // Register the import (unless resuming one) with the password that opened it;
+  // every record and result file of this upload is linked to it
+  const importId = request.importId
+    || await LabImportService.createImport(supabase, zipFileName, request.archiveSha256, request.uploadedBy, usedPasswordIds[0] || null);
+
+  const processedRecords: LabImportSummary['processedRecords'] = [];
+  const errors: string[] = [];
+  const skippedFiles: string[] = []; // To record skipped .lab files
+  const duplicates: LabImportSummary['duplicates'] = []; // Earlier imports of skipped files
+  const fileDiagnostics: LabImportSummary['fileDiagnostics'] = []; // Parse diagnostics per .lab file
+  const rejectedFiles: string[] = []; // .lab files refused in strict mode
+  const labFiles: LabImportSummary['labFiles'] = []; // Registered result files (GET /lab-files/:id)
+
+  // A resumed import first deletes what it half inserted from the file it was processing (that file is imported
+  // again below) and keeps the records of the files it had finished
+  const previousAdministrativeIds: string[] = [];
+  const partialFileHashes = new Set<string>(); // Files of the resumed import already stored in part, not imported again
+  if (request.importId) {
+    const unfinishedFiles = await LabImportService.deleteUnfinishedFiles(supabase, importId);
+    for (const unfinishedFile of unfinishedFiles) {
+      if (!unfinishedFile.storage_key) continue;
+      try {
+        await fileStorage.delete(unfinishedFile.storage_key);
+      } catch (deleteError: any) {
+        console.error(`Error deleting stored file ${unfinishedFile.storage_key}:`, deleteError.message);
+      }
+    }
+
+    const { data: previousAdministratives, error: previousError } = await supabase
+      .from('administrative')
+      .select('administrative_id')
+      .eq('import_id', importId)
+      .eq('is_active', true);
+
+    if (previousError) {
+      throw new Error(`Error getting the records of the resumed import: ${previousError.message}`);
+    }
+    previousAdministrativeIds.push(...(previousAdministratives || []).map(admin => admin.administrative_id));
+
+    for (const importFile of await LabImportService.getImportFiles(supabase, importId)) {
+      if (importFile.status === 'partial') partialFileHashes.add(importFile.file_sha256);
+    }
+  }
+
+  const progress: LabImportProgress = { importId, filesTotal: resultFiles.length, filesDone: 0, blocksInserted: previousAdministrativeIds.length, skippedFiles, errors };
+  await onProgress(progress);
+
+  // Encodings configured per lab, for labs whose files can't be detected reliably
+  const encodingOverrides = await LabEncodingService.getEncodingOverrides(supabase);
+
+  // Imports a single result file; problems are collected in the summary lists
+  const processResultFile = async (file: { path: string; data: Buffer }) => {
+    const labFileName = path.basename(file.path);
+    let storageKey: string | null = null;
+    let parsedBlocks;
+    let diagnostics: ParseDiagnostic[] = [];
+    let encoding: LabFileEncoding;
+    let sourceFormat: 'lab' | 'hl7';
+
+    // Skip files whose exact content was already imported (in this or an earlier upload)
+    const fileSha256 = computeSha256(file.data);
+    if (partialFileHashes.has(fileSha256)) {
+      return;
+    }
+    let duplicateFile;
+    try {
+      duplicateFile = await LabImportService.findImportedFileByHash(supabase, fileSha256);
+    } catch (fileCheckError: any) {
+      console.error(`Error checking for duplicate file for ${labFileName}:`, fileCheckError.message);
+      errors.push(`Internal error checking for duplicate for ${labFileName}.`);
+      return;
+    }
+
+    if (duplicateFile) {
+      // A resumed import finds the files it already imported before the interruption
+      if (request.importId && duplicateFile.import_id === importId) {
+        return;
+      }
+      skippedFiles.push(labFileName);
+      duplicates.push({ labFileName, duplicateOfImportId: duplicateFile.import_id, duplicateOfFileName: duplicateFile.lab_file_name });
+      console.warn(`The file "${labFileName}" was already imported (import ${duplicateFile.import_id}). Insertion will be skipped.`);
+      return; // Skip insertion if it already exists
+    }
+
+    // Record the outcome of this file in the import registry (updating it if it was registered as 'processing')
+    let labFileId: string | null = null;
+    const registerFile = async (status: LabImportFile['status']) => {
+      try {
+        if (labFileId) {
+          await LabImportService.updateFileStatus(supabase, labFileId, status);
+        } else {
+          labFileId = await LabImportService.registerFile(supabase, { import_id: importId, lab_file_name: labFileName, file_sha256: fileSha256, storage_key: storageKey, status });
+        }
+        labFiles.push({ labFileName, labFileId, status });
+      } catch (registerError: any) {
+        console.error(registerError.message);
+        errors.push(registerError.message);
+      }
+    };
+
+    try {
+      // Store the original .lab file (private; no public URL is generated)
+      const storagePath = `lab_files/${Date.now()}_${labFileName}`; // Unique path to avoid direct name collisions in storage
+      await fileStorage.put(storagePath, file.data, 'text/plain');
+      storageKey = storagePath;
+
+      ({ blocks: parsedBlocks, diagnostics, encoding, sourceFormat } = parseResultFile(labFileName, file.data, encodingOverrides, mode));
+
+    } catch (parseOrStorageError: any) {
+      console.error(`Error processing file ${labFileName}:`, parseOrStorageError.message);
+      errors.push(`Error processing ${labFileName}: ${parseOrStorageError.message}`);
+      await registerFile('error');
+      return;
+    }
+
+    // Register the file before storing anything from it: if the import is interrupted, the resumed
+    // job finds it in 'processing' and deletes its rows before importing it again
+    try {
+      labFileId = await LabImportService.registerFile(supabase, { import_id: importId, lab_file_name: labFileName, file_sha256: fileSha256, storage_key: storageKey, status: 'processing' });
+    } catch (registerError: any) {
+      console.error(registerError.message);
+      errors.push(registerError.message);
+      return;
+    }
+
+    // Report and store the parse diagnostics of this .lab file
+    fileDiagnostics.push({ labFileName, encoding, diagnostics });
+    if (diagnostics.length > 0) {
+      const diagnosticsToInsert = diagnostics.map(diagnostic => ({
+        ...diagnostic,
+        lab_file_name: labFileName,
+        file_name: storageKey,
+        zip_uploaded: zipFileName,
+        import_id: importId, // Import registry entry of this upload
+        import_file_id: labFileId, // Registered result file (labimportfile) the diagnostic belongs to
+      }));
+
+      const { error: diagnosticInsertError } = await supabase
+        .from('labdiagnostic')
+        .insert(diagnosticsToInsert);
+
+      if (diagnosticInsertError) {
+        console.error(`Error saving parse diagnostics for ${labFileName}:`, diagnosticInsertError);
+        errors.push(`Error saving parse diagnostics for ${labFileName}: ${diagnosticInsertError.message}`);
+      }
+    }
+
+    // In strict mode, a single error diagnostic rejects the whole .lab file
+    if (mode === 'strict' && diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      rejectedFiles.push(labFileName);
+      console.warn(`The .lab file "${labFileName}" was rejected in strict mode.`);
+      await registerFile('rejected');
+      return;
+    }
+
+    // Insert data into administrative and result tables
+    const processedBefore = processedRecords.length;
+    for (const block of parsedBlocks) {
+      try {
+        // Prepare administrative data
+        const adminToInsert = {
+          ...block.administrative,
+          invoicedetail_id: invoicedetail_id,
+          file_name: storageKey, // Save the LAB file storage key in the administrative header
+          file_encoding: encoding, // Encoding used to decode the LAB file
+          source_format: sourceFormat, // 'lab' or 'hl7'
+          zip_uploaded: zipFileName, // NEW: Save the name of the uploaded ZIP
+          import_id: importId, // Import registry entry of this upload
+          status: block.administrative.status || 0,
+        };
+
+        const { data: adminData, error: adminInsertError } = await supabase
+          .from('administrative')
+          .insert(adminToInsert)
+          .select('administrative_id');
+
+        if (adminInsertError || !adminData || adminData.length === 0) {
+          throw new Error(`Error inserting administrative record: ${adminInsertError?.message}`);
+        }
+
+        const administrative_id = adminData[0].administrative_id;
+
+        // Prepare and insert results
+        const resultsToInsert = block.results.map(result => ({
+          ...result,
+          administrative_id: administrative_id,
+        }));
+
+        const { error: resultInsertError } = await supabase
+          .from('result')
+          .insert(resultsToInsert);
+
+        if (resultInsertError) {
+          throw new Error(`Error inserting results: ${resultInsertError.message}`);
+        }
+
+        processedRecords.push({ administrativeId: administrative_id, labFileName: labFileName, storageKey: storageKey });
+
+      } catch (dbError: any) {
+        console.error(`Error inserting DB data for ${labFileName}:`, dbError.message);
+        errors.push(`Error inserting data for ${labFileName} in DB: ${dbError.message}`);
+      }
+    }
+
+    // A file counts as imported (and as a future duplicate) only if all its blocks were stored;
+    // with some of them stored it is 'partial' and can be uploaded again once fixed
+    const blocksStored = processedRecords.length - processedBefore;
+    await registerFile(blocksStored === parsedBlocks.length ? 'imported' : blocksStored > 0 ? 'partial' : 'error');
+  };
+
+  // Process each decompressed .lab file
+  for (const file of resultFiles) {
+    await processResultFile(file);
+    progress.filesDone++;
+    progress.blocksInserted = previousAdministrativeIds.length + processedRecords.length;
+    await onProgress(progress);
+  }
+
+  // Link the imported results to their order lines; a failure here doesn't undo the import
+  let orderLinks: OrderLinkSummary = { linked: 0, unmatched: 0 };
+  try {
+    orderLinks = await OrderResultLinkService.linkAdministrativeResults(supabase, [
+      ...previousAdministrativeIds,
+      ...processedRecords.map(record => record.administrativeId),
+    ]);
+  } catch (linkError: any) {
+    console.error(`Error linking results to orders for import ${importId}:`, linkError.message);
+    errors.push(`Error linking results to orders: ${linkError.message}`);
+  }
+
+  return {
+    importId,
+    processedFilesCount: processedRecords.length,
+    blocksInserted: previousAdministrativeIds.length + processedRecords.length,
+    totalErrors: errors.length,
+    skippedFiles,
+    duplicates,
+    labFiles,
+    rejectedFiles,
+    processedRecords,
+    errors,
+    fileDiagnostics,
+    orderLinks,
+  };
+};
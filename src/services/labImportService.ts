@@ -0,0 +1,370 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+// Define la interfaz para la estructura de la tabla labimport (una fila por archivo subido)
+export interface LabImport {
+  import_id: string;
+  archive_name: string;
+  archive_sha256: string;
+  uploaded_by?: string | null;
+  filep_id?: string | null; // Contraseña (filepassword) que abrió el archivo, si estaba protegido
+  created_at?: string;
+  is_active: boolean;
+}
+
+// Define la interfaz para la estructura de la tabla labimportfile (una fila por archivo de resultados)
+export interface LabImportFile {
+  import_file_id: string;
+  import_id: string;
+  lab_file_name: string;
+  file_sha256: string;
+  storage_key?: string | null; // Clave del archivo original en el FileStorage
+  // 'processing' mientras se insertan sus registros; 'partial' si solo se guardó una parte de sus bloques
+  // (no cuenta como duplicado: el archivo corregido o completo se puede volver a importar)
+  status: 'processing' | 'imported' | 'partial' | 'rejected' | 'error';
+  created_at?: string;
+  is_active: boolean;
+}
+
+// Define la interfaz para la estructura de la tabla labimportaudit (acciones sobre una importación)
+export interface LabImportAudit {
+  audit_id: string;
+  import_id: string;
+  action: 'rollback' | 'reprocess';
+  performed_by?: string | null;
+  details?: any;
+  created_at?: string;
+}
+
+/**
+ * Calcula el hash SHA-256 (hex) de un contenido binario.
+ * @param data Contenido del archivo.
+ */
+export const computeSha256 = (data: Buffer): string => createHash('sha256').update(data).digest('hex');
+
+// Igual que computeSha256, leyendo el archivo por partes (subidas guardadas en disco)
+export const computeSha256File = async (filePath: string): Promise<string> => {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+};
+
+/**
+ * Servicio para el registro de importaciones de archivos de laboratorio.
+ * La deduplicación se hace por contenido (SHA-256), no por nombre de archivo.
+ */
+export const LabImportService = {
+  /**
+   * Busca una importación activa de un archivo comprimido con el mismo contenido.
+   * @param supabase Cliente de Supabase.
+   * @param archiveSha256 Hash del archivo subido.
+   * @returns La importación existente, o null si no hay ninguna.
+   * @throws Error si la consulta falla.
+   */
+  findActiveImportByHash: async (supabase: SupabaseClient, archiveSha256: string): Promise<LabImport | null> => {
+    const { data, error } = await supabase
+      .from('labimport')
+      .select('*')
+      .eq('archive_sha256', archiveSha256)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error al buscar importaciones duplicadas: ${error.message}`);
+    }
+    return data && data.length > 0 ? data[0] : null;
+  },
+
+  /**
+   * Busca un archivo de resultados ya importado (y activo) con el mismo contenido.
+   * Los archivos rechazados o con error no cuentan como duplicados.
+   * @param supabase Cliente de Supabase.
+   * @param fileSha256 Hash del archivo .lab / HL7.
+   * @returns El archivo registrado, o null si no hay ninguno.
+   * @throws Error si la consulta falla.
+   */
+  findImportedFileByHash: async (supabase: SupabaseClient, fileSha256: string): Promise<LabImportFile | null> => {
+    const { data, error } = await supabase
+      .from('labimportfile')
+      .select('*')
+      .eq('file_sha256', fileSha256)
+      .eq('status', 'imported')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error al buscar archivos duplicados: ${error.message}`);
+    }
+    return data && data.length > 0 ? data[0] : null;
+  },
+
+  /**
+   * Obtiene un archivo de resultados registrado (y activo) por su id.
+   * @param supabase Cliente de Supabase.
+   * @param importFileId Id del archivo en labimportfile.
+   * @returns El archivo registrado, o null si no existe.
+   * @throws Error si la consulta falla.
+   */
+  getFileById: async (supabase: SupabaseClient, importFileId: string): Promise<LabImportFile | null> => {
+    const { data, error } = await supabase
+      .from('labimportfile')
+      .select('*')
+      .eq('import_file_id', importFileId)
+      .eq('is_active', true)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error al obtener el archivo: ${error.message}`);
+    }
+    return data || null;
+  },
+
+  /**
+   * Obtiene una importación activa por su id.
+   * @param supabase Cliente de Supabase.
+   * @param importId Id de la importación.
+   * @returns La importación, o null si no existe o ya se deshizo.
+   * @throws Error si la consulta falla.
+   */
+  getActiveImportById: async (supabase: SupabaseClient, importId: string): Promise<LabImport | null> => {
+    const { data, error } = await supabase
+      .from('labimport')
+      .select('*')
+      .eq('import_id', importId)
+      .eq('is_active', true)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error al obtener la importación: ${error.message}`);
+    }
+    return data || null;
+  },
+
+  /**
+   * Obtiene los archivos de resultados activos de una importación.
+   * @param supabase Cliente de Supabase.
+   * @param importId Id de la importación.
+   * @throws Error si la consulta falla.
+   */
+  getImportFiles: async (supabase: SupabaseClient, importId: string): Promise<LabImportFile[]> => {
+    const { data, error } = await supabase
+      .from('labimportfile')
+      .select('*')
+      .eq('import_id', importId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error al obtener los archivos de la importación: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  /**
+   * Obtiene los archivos importados, enteros o en parte (activos y con copia guardada), de una importación
+   * y/o registrados en un rango de fechas, para volver a procesarlos.
+   * @param supabase Cliente de Supabase.
+   * @param filter importId y/o rango [from, to] sobre la fecha de importación (ISO).
+   * @throws Error si la consulta falla.
+   */
+  findFilesForReprocessing: async (
+    supabase: SupabaseClient,
+    filter: { importId?: string | null; from?: string | null; to?: string | null }
+  ): Promise<LabImportFile[]> => {
+    let query = supabase
+      .from('labimportfile')
+      .select('*')
+      .in('status', ['imported', 'partial'])
+      .eq('is_active', true)
+      .not('storage_key', 'is', null);
+
+    if (filter.importId) query = query.eq('import_id', filter.importId);
+    if (filter.from) query = query.gte('created_at', filter.from);
+    if (filter.to) query = query.lte('created_at', filter.to);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error al obtener los archivos a reprocesar: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  /**
+   * Desactiva una importación y sus archivos registrados, de modo que
+   * el mismo contenido deja de considerarse duplicado.
+   * @param supabase Cliente de Supabase.
+   * @param importId Id de la importación.
+   * @throws Error si la actualización falla.
+   */
+  deactivateImport: async (supabase: SupabaseClient, importId: string): Promise<void> => {
+    const { error: filesError } = await supabase
+      .from('labimportfile')
+      .update({ is_active: false })
+      .eq('import_id', importId);
+
+    if (filesError) {
+      throw new Error(`Error al desactivar los archivos de la importación: ${filesError.message}`);
+    }
+
+    const { error: importError } = await supabase
+      .from('labimport')
+      .update({ is_active: false })
+      .eq('import_id', importId);
+
+    if (importError) {
+      throw new Error(`Error al desactivar la importación: ${importError.message}`);
+    }
+  },
+
+  /**
+   * Deja constancia de una acción sobre una importación en labimportaudit.
+   * @param supabase Cliente de Supabase.
+   * @param entry Importación, acción, usuario y detalles.
+   * @throws Error si la inserción falla.
+   */
+  recordAudit: async (
+    supabase: SupabaseClient,
+    entry: Pick<LabImportAudit, 'import_id' | 'action' | 'performed_by' | 'details'>
+  ): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportaudit')
+      .insert(entry);
+
+    if (error) {
+      throw new Error(`Error al registrar la auditoría de la importación: ${error.message}`);
+    }
+  },
+
+  /**
+   * Registra una nueva importación.
+   * @param supabase Cliente de Supabase.
+   * @param archiveName Nombre original del archivo subido.
+   * @param archiveSha256 Hash del archivo subido.
+   * @param uploadedBy Id del usuario que sube el archivo, si se conoce.
+   * @param filepId Contraseña que abrió el archivo, si estaba protegido.
+   * @returns El import_id creado.
+   * @throws Error si la inserción falla.
+   */
+  createImport: async (
+    supabase: SupabaseClient,
+    archiveName: string,
+    archiveSha256: string,
+    uploadedBy: string | null,
+    filepId: string | null = null
+  ): Promise<string> => {
+    const { data, error } = await supabase
+      .from('labimport')
+      .insert({ archive_name: archiveName, archive_sha256: archiveSha256, uploaded_by: uploadedBy, filep_id: filepId })
+      .select('import_id');
+
+    if (error || !data || data.length === 0) {
+      throw new Error(`Error al registrar la importación: ${error?.message}`);
+    }
+    return data[0].import_id;
+  },
+
+  /**
+   * Cambia el estado de un archivo de resultados registrado.
+   * @param supabase Cliente de Supabase.
+   * @param importFileId Id del archivo en labimportfile.
+   * @param status Estado final del archivo.
+   * @throws Error si la actualización falla.
+   */
+  updateFileStatus: async (supabase: SupabaseClient, importFileId: string, status: LabImportFile['status']): Promise<void> => {
+    const { error } = await supabase
+      .from('labimportfile')
+      .update({ status })
+      .eq('import_file_id', importFileId);
+
+    if (error) {
+      throw new Error(`Error al actualizar el estado del archivo ${importFileId}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Borra lo insertado desde los archivos de una importación que quedaron a medias ('processing'):
+   * sus registros administrativos y resultados, sus diagnósticos y el propio registro del archivo.
+   * Se usa al reanudar una importación interrumpida, antes de volver a importar esos archivos.
+   * Los registros aún no se habían enlazado con pedidos (eso se hace al final de la importación).
+   * @param supabase Cliente de Supabase.
+   * @param importId Id de la importación.
+   * @returns Los archivos borrados (para eliminar también su copia guardada).
+   * @throws Error si alguna consulta o borrado falla.
+   */
+  deleteUnfinishedFiles: async (supabase: SupabaseClient, importId: string): Promise<LabImportFile[]> => {
+    const { data: files, error } = await supabase
+      .from('labimportfile')
+      .select('*')
+      .eq('import_id', importId)
+      .eq('status', 'processing');
+
+    if (error) {
+      throw new Error(`Error al obtener los archivos sin terminar de la importación: ${error.message}`);
+    }
+
+    for (const file of (files || []) as LabImportFile[]) {
+      if (file.storage_key) {
+        const { data: administratives, error: adminError } = await supabase
+          .from('administrative')
+          .select('administrative_id')
+          .eq('import_id', importId)
+          .eq('file_name', file.storage_key);
+
+        if (adminError) {
+          throw new Error(`Error al obtener los registros de ${file.lab_file_name}: ${adminError.message}`);
+        }
+
+        const administrativeIds = (administratives || []).map(admin => admin.administrative_id);
+        if (administrativeIds.length > 0) {
+          const { error: resultError } = await supabase.from('result').delete().in('administrative_id', administrativeIds);
+          if (resultError) {
+            throw new Error(`Error al borrar los resultados de ${file.lab_file_name}: ${resultError.message}`);
+          }
+          const { error: adminDeleteError } = await supabase.from('administrative').delete().in('administrative_id', administrativeIds);
+          if (adminDeleteError) {
+            throw new Error(`Error al borrar los registros de ${file.lab_file_name}: ${adminDeleteError.message}`);
+          }
+        }
+      }
+
+      const { error: diagnosticError } = await supabase.from('labdiagnostic').delete().eq('import_file_id', file.import_file_id);
+      if (diagnosticError) {
+        throw new Error(`Error al borrar los diagnósticos de ${file.lab_file_name}: ${diagnosticError.message}`);
+      }
+
+      const { error: fileError } = await supabase.from('labimportfile').delete().eq('import_file_id', file.import_file_id);
+      if (fileError) {
+        throw new Error(`Error al borrar el archivo ${file.lab_file_name}: ${fileError.message}`);
+      }
+    }
+    return files || [];
+  },
+
+  /**
+   * Registra un archivo de resultados procesado dentro de una importación.
+   * @param supabase Cliente de Supabase.
+   * @param file Datos del archivo (sin id ni campos por defecto).
+   * @returns El import_file_id creado.
+   * @throws Error si la inserción falla.
+   */
+  registerFile: async (
+    supabase: SupabaseClient,
+    file: Pick<LabImportFile, 'import_id' | 'lab_file_name' | 'file_sha256' | 'storage_key' | 'status'>
+  ): Promise<string> => {
+    const { data, error } = await supabase
+      .from('labimportfile')
+      .insert(file)
+      .select('import_file_id');
+
+    if (error || !data || data.length === 0) {
+      throw new Error(`Error al registrar el archivo ${file.lab_file_name}: ${error?.message}`);
+    }
+    return data[0].import_file_id;
+  },
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase } from '../testing/fakeSupabase';
+import { FileStorage } from './fileStorage';
+import { reprocessLabFiles } from './labReprocessor';
+
+// Stored file as the current parser reads it: the glucose value changed and the urea result is gone
+const LAB_FILE = [
+  'A1\\P001\\LAB01\\',
+  'A2\\P001\\DUPONT\\Marie\\F\\15031980\\CAHWF0325001\\',
+  'A4\\P001\\DR123\\10032025\\\\R\\',
+  'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\\\99\\',
+].join('\r\n');
+
+const createTables = (results = STORED_RESULTS) => createFakeSupabase({
+  labimportfile: [
+    { import_file_id: 'f1', import_id: 'i1', lab_file_name: 'a.lab', storage_key: 'lab_files/a.lab', status: 'imported', is_active: true },
+  ],
+  administrative: [{
+    administrative_id: 'a1', ident_protocol: 'P001', lab_identification: 'LAB01',
+    surname: 'DUPONT', firstname: 'Marie', sex: 'F', date_of_birth: '1980-03-15', date_of_birth_raw: '15031980', external_identifier: 'CAHWF0325001',
+    prescribing_doctor: 'DR123', date_request: '2025-03-10', date_request_raw: '10032025', protocol_type: 'R',
+    file_name: 'lab_files/a.lab', is_active: true,
+  }],
+  result: results.map(result => ({ ...result })),
+  order: [{ order_id: 'o1', status: 'resulted', is_active: true }],
+  orderdetail: [
+    { orderdetail_id: 'l1', order_id: 'o1', ref_patient: 'CAHWF0325001', status: 'resulted', resulted_at: '2025-03-10', is_active: true },
+    { orderdetail_id: 'l2', order_id: 'o1', ref_patient: 'CAHWF0325001', status: 'resulted', resulted_at: '2025-03-10', is_active: true },
+  ],
+}, { idColumns: { result: 'result_id' }, defaults: { result: { is_active: true } } });
+
+const STORED_RESULTS = [
+  { result_id: 'r1', administrative_id: 'a1', type: 1, analytical_code: 'GLU', analytical_name: 'Glucose', reference_value: '70-110', unit: 'mg/dL', result: '98', result_numeric: 98, reference_low: 70, reference_high: 110, abnormal_flag: 'normal', orderdetail_id: 'l1', order_link_source: 'manual', is_active: true },
+  { result_id: 'r2', administrative_id: 'a1', type: 1, analytical_code: 'URE', result: '30', orderdetail_id: 'l2', order_link_source: 'auto', is_active: true },
+];
+
+const storageWith = (content: string) => ({ get: async () => Buffer.from(content) }) as unknown as FileStorage;
+const fileStorage = storageWith(LAB_FILE);
+
+describe('reprocessLabFiles', () => {
+  it('keeps the order link of the replaced result and releases the line left without results', async () => {
+    const { supabase, tables } = createTables();
+
+    const summary = await reprocessLabFiles(supabase, fileStorage, { importId: 'i1', mode: 'lenient', apply: true, performedBy: null });
+
+    expect(summary.errors).toEqual([]);
+    expect(summary.recordsChanged).toBe(1);
+    expect(summary.records[0].administrativeDiff).toEqual({});
+
+    const activeResults = tables.result.filter(result => result.is_active);
+    expect(activeResults).toHaveLength(1);
+    expect(activeResults[0]).toMatchObject({ analytical_code: 'GLU', result: '99', orderdetail_id: 'l1', order_link_source: 'manual' });
+
+    expect(tables.orderdetail.find(line => line.orderdetail_id === 'l1')!.status).toBe('resulted');
+    expect(tables.orderdetail.find(line => line.orderdetail_id === 'l2')!.status).toBe('sent');
+    expect(tables.order[0].status).toBe('partially_resulted');
+  });
+
+  it('only reports the differences without apply', async () => {
+    const { supabase, tables } = createTables();
+
+    const summary = await reprocessLabFiles(supabase, fileStorage, { importId: 'i1', mode: 'lenient', apply: false, performedBy: null });
+
+    expect(summary.records[0].diff.removed.map(result => result.analytical_code)).toEqual(['URE']);
+    expect(tables.result.filter(result => result.is_active).map(result => result.result_id)).toEqual(['r1', 'r2']);
+  });
+
+  it('updates the header fields without replacing unchanged results', async () => {
+    const { supabase, tables } = createTables([STORED_RESULTS[0]]);
+    // Same result as stored, now with a protocol comment
+    const labFile = LAB_FILE.replace('\\99\\', '\\98\\') + '\r\nL3\\P001\\Echantillon hémolysé\\';
+
+    const summary = await reprocessLabFiles(supabase, storageWith(labFile), { importId: 'i1', mode: 'lenient', apply: true, performedBy: null });
+
+    expect(summary.records).toHaveLength(1);
+    expect(summary.records[0].administrativeDiff).toEqual({ comment: { before: null, after: 'Echantillon hémolysé' } });
+    expect(summary.records[0].diff).toEqual({ added: [], removed: [], changed: [] });
+    expect(tables.administrative[0].comment).toBe('Echantillon hémolysé');
+    expect(tables.result.map(result => [result.result_id, result.is_active])).toEqual([['r1', true]]);
+    expect(tables.labimportaudit).toHaveLength(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ParseMode } from '../utils/labFileParser';
+import {
+  AdministrativeDiff, diffAdministrative, diffResults, hasResultChanges, matchStoredResults, ResultDiff, StoredAdministrativeRow, StoredResultRow,
+} from '../utils/resultDiff';
+import { FileStorage } from './fileStorage';
+import { LabEncodingService } from './labEncodingService';
+import { LabImportService } from './labImportService';
+import { parseResultFile } from './labImportProcessor';
+import { OrderResultLinkService } from './orderResultLinkService';
+import { OrderStatusService } from './orderStatusService';
+
+// Which stored files to reprocess and whether to write the new results
+export interface LabReprocessRequest {
+  importId?: string | null;
+  from?: string | null; // ISO date, inclusive
+  to?: string | null; // ISO date, inclusive
+  mode: ParseMode;
+  apply: boolean; // false: only report the differences
+  performedBy: string | null;
+}
+
+export interface LabReprocessSummary {
+  filesChecked: number;
+  recordsChanged: number;
+  applied: boolean;
+  records: {
+    administrativeId: string;
+    identProtocol: string | null;
+    labFileName: string;
+    administrativeDiff: AdministrativeDiff; // Changed header fields (A1-A5, L3, L9, unknown lines)
+    diff: ResultDiff;
+  }[];
+  unmatched: { labFileName: string; identProtocol: string | null; reason: 'not in database' | 'not in file'; }[];
+  errors: string[];
+}
+
+/**
+ * Parses the stored result files again with the current parser and compares the outcome
+ * with each administrative record (matched by file and protocol) and its active result rows.
+ * With apply, the changed header fields are updated and the results of every record whose results changed
+ * are replaced: the new ones are inserted (keeping the order link of the row they replace) and the old rows
+ * deactivated. An audit entry is left per import.
+ * Order lines left without any active result go back to their previous status.
+ * Records found only in the file or only in the database are reported, never created or removed.
+ * @param supabase Supabase client
+ * @param fileStorage Storage backend holding the original files
+ * @param request Files to reprocess and options
+ */
+export const reprocessLabFiles = async (
+  supabase: SupabaseClient,
+  fileStorage: FileStorage,
+  request: LabReprocessRequest
+): Promise<LabReprocessSummary> => {
+  const labFiles = await LabImportService.findFilesForReprocessing(supabase, request);
+  const encodingOverrides = await LabEncodingService.getEncodingOverrides(supabase);
+
+  const summary: LabReprocessSummary = { filesChecked: 0, recordsChanged: 0, applied: request.apply, records: [], unmatched: [], errors: [] };
+  const updatedByImport: { [importId: string]: string[] } = {};
+  const replacedLineIds = new Set<string>(); // Order lines of the replaced results, released if left without results
+
+  for (const labFile of labFiles) {
+    const labFileName = labFile.lab_file_name;
+    try {
+      // 1. Parse the stored file again
+      const data = await fileStorage.get(labFile.storage_key!);
+      const { blocks, diagnostics } = parseResultFile(labFileName, data, encodingOverrides, request.mode);
+      if (request.mode === 'strict' && diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        summary.errors.push(`${labFileName} has parse errors in strict mode and was not reprocessed.`);
+        continue;
+      }
+      summary.filesChecked++;
+
+      // 2. Load the records imported from this file with their active results
+      const { data: administratives, error: adminError } = await supabase
+        .from('administrative')
+        .select('*')
+        .eq('file_name', labFile.storage_key)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true })
+        .returns<StoredAdministrativeRow[]>();
+
+      if (adminError) {
+        throw new Error(`Error getting administrative records: ${adminError.message}`);
+      }
+
+      const administrativeIds = (administratives || []).map(admin => admin.administrative_id);
+      const { data: results, error: resultError } = administrativeIds.length > 0
+        ? await supabase
+          .from('result')
+          .select('*')
+          .in('administrative_id', administrativeIds)
+          .eq('is_active', true)
+          .order('created_at', { ascending: true })
+          .returns<StoredResultRow[]>()
+        : { data: [] as StoredResultRow[], error: null };
+
+      if (resultError) {
+        throw new Error(`Error getting result details: ${resultError.message}`);
+      }
+
+      // 3. Match every parsed block with a stored record of the same protocol and compare header and results
+      const unmatchedAdministratives = [...(administratives || [])];
+      for (const block of blocks) {
+        const identProtocol = block.administrative.ident_protocol || null;
+        const matchIndex = unmatchedAdministratives.findIndex(admin => admin.ident_protocol === identProtocol);
+        if (matchIndex === -1) {
+          summary.unmatched.push({ labFileName, identProtocol, reason: 'not in database' });
+          continue;
+        }
+        const [administrative] = unmatchedAdministratives.splice(matchIndex, 1);
+
+        const existingResults = (results || []).filter(result => result.administrative_id === administrative.administrative_id);
+        const administrativeDiff = diffAdministrative(administrative, block.administrative);
+        const diff = diffResults(existingResults, block.results);
+        const administrativeChanged = Object.keys(administrativeDiff).length > 0;
+        const resultsChanged = hasResultChanges(diff);
+        if (!administrativeChanged && !resultsChanged) continue;
+
+        summary.recordsChanged++;
+        summary.records.push({ administrativeId: administrative.administrative_id, identProtocol, labFileName, administrativeDiff, diff });
+
+        if (!request.apply) continue;
+
+        // 4. Update the changed header fields
+        if (administrativeChanged) {
+          const changes = Object.fromEntries(Object.entries(administrativeDiff).map(([field, change]) => [field, change.after]));
+          const { error: updateAdminError } = await supabase
+            .from('administrative')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('administrative_id', administrative.administrative_id);
+
+          if (updateAdminError) {
+            throw new Error(`Error updating administrative record: ${updateAdminError.message}`);
+          }
+        }
+
+        // 5. Replace the results of the record when they changed.
+        // Each new result keeps the order link (automatic or manual) of the row it replaces.
+        // The new results are inserted first, so a failed insert leaves the old ones active.
+        if (resultsChanged) {
+          const replacedRows = matchStoredResults(existingResults, block.results);
+          for (const result of existingResults) {
+            if (result.orderdetail_id) replacedLineIds.add(result.orderdetail_id);
+          }
+
+          if (block.results.length > 0) {
+            const { error: insertError } = await supabase
+              .from('result')
+              .insert(block.results.map((result, index) => ({
+                ...result,
+                administrative_id: administrative.administrative_id,
+                orderdetail_id: replacedRows[index]?.orderdetail_id || null,
+                order_link_source: replacedRows[index]?.order_link_source || null,
+              })));
+
+            if (insertError) {
+              throw new Error(`Error inserting results: ${insertError.message}`);
+            }
+          }
+
+          if (existingResults.length > 0) {
+            const { error: deactivateError } = await supabase
+              .from('result')
+              .update({ is_active: false, updated_at: new Date().toISOString() })
+              .in('result_id', existingResults.map(result => result.result_id));
+
+            if (deactivateError) {
+              throw new Error(`Error updating results to inactive: ${deactivateError.message}`);
+            }
+          }
+        }
+        (updatedByImport[labFile.import_id] ||= []).push(administrative.administrative_id);
+      }
+
+      for (const administrative of unmatchedAdministratives) {
+        summary.unmatched.push({ labFileName, identProtocol: administrative.ident_protocol, reason: 'not in file' });
+      }
+
+    } catch (err: any) {
+      console.error(`Error reprocessing ${labFileName}:`, err.message);
+      summary.errors.push(`Error reprocessing ${labFileName}: ${err.message}`);
+    }
+  }
+
+  // Audit the updated records, one entry per import
+  for (const [importId, administrativeIds] of Object.entries(updatedByImport)) {
+    try {
+      await LabImportService.recordAudit(supabase, {
+        import_id: importId,
+        action: 'reprocess',
+        performed_by: request.performedBy,
+        details: { administrative_ids: administrativeIds, mode: request.mode },
+      });
+    } catch (auditError: any) {
+      console.error(auditError.message);
+      summary.errors.push(auditError.message);
+    }
+  }
+
+  // The automatic links of the updated records are recalculated (manual links are kept as they are),
+  // then the order lines left without any active result go back to their previous status
+  const updatedAdministrativeIds = Object.values(updatedByImport).flat();
+  if (updatedAdministrativeIds.length > 0) {
+    try {
+      await OrderResultLinkService.linkAdministrativeResults(supabase, updatedAdministrativeIds);
+      await OrderStatusService.releaseLines(supabase, [...replacedLineIds]);
+    } catch (linkError: any) {
+      console.error(linkError.message);
+      summary.errors.push(linkError.message);
+    }
+  }
+
+  return summary;
+};
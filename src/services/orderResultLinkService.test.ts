@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase } from '../testing/fakeSupabase';
+import { OrderLine, OrderResultLinkService, pickOrderLine } from './orderResultLinkService';
+
+const orderLine = (orderdetailId: string, refPatient: string, refAnalyze: string, code: string, number = 1): OrderLine => ({
+  orderdetail_id: orderdetailId,
+  order_id: `order-${orderdetailId}`,
+  number,
+  ref_patient: refPatient,
+  ref_analyze: refAnalyze,
+  code,
+});
+
+const codesHw = new Map([['GLU', new Set(['HW-GLU'])]]);
+
+describe('pickOrderLine', () => {
+  it('links every result of a protocol sent as ref_analyze to that line', () => {
+    const lines = [orderLine('l1', 'CAHWF0325001', 'P001', 'HW-ECG')];
+
+    const line = pickOrderLine({ ident_protocol: 'P001', external_identifier: 'CAHWF0325001' }, { analytical_code: 'GLU' }, lines, codesHw);
+
+    expect(line?.orderdetail_id).toBe('l1');
+  });
+
+  it('does not take the line of another centre with the same protocol id', () => {
+    const lines = [
+      orderLine('other-centre', 'CBXYZ0325009', 'P001', 'HW-GLU', 1),
+      orderLine('own', 'CAHWF0325001', 'HW-2', 'HW-GLU', 2),
+    ];
+
+    const line = pickOrderLine({ ident_protocol: 'P001', external_identifier: 'CAHWF0325001' }, { analytical_code: 'GLU' }, lines, codesHw);
+
+    expect(line?.orderdetail_id).toBe('own');
+  });
+
+  it('matches on the protocol alone when the record has no external identifier', () => {
+    const lines = [orderLine('l1', 'CAHWF0325001', 'P001', 'HW-ECG')];
+
+    expect(pickOrderLine({ ident_protocol: 'P001', external_identifier: null }, { analytical_code: 'GLU' }, lines, codesHw)?.orderdetail_id).toBe('l1');
+  });
+
+  it('picks the first patient line of the translated code', () => {
+    // findCandidateLines devuelve las líneas ordenadas por número
+    const lines = [
+      orderLine('l1', 'CAHWF0325001', 'HW-1', 'HW-GLU', 1),
+      orderLine('l2', 'CAHWF0325001', 'HW-2', 'HW-GLU', 2),
+      orderLine('l3', 'CAHWF0325001', 'HW-3', 'HW-URE', 3),
+    ];
+
+    expect(pickOrderLine({ ident_protocol: 'P001', external_identifier: 'CAHWF0325001' }, { analytical_code: 'GLU' }, lines, codesHw)?.orderdetail_id).toBe('l1');
+    expect(pickOrderLine({ ident_protocol: 'P001', external_identifier: 'CAHWF0325001' }, { analytical_code: 'URE' }, lines, codesHw)).toBeNull();
+  });
+});
+
+describe('linkAdministrativeResults', () => {
+  it('moves an automatic link away from another centre and releases that line', async () => {
+    const { supabase, tables } = createFakeSupabase({
+      administrative: [{ administrative_id: 'a1', ident_protocol: 'P001', external_identifier: 'CAHWF0325001', is_active: true }],
+      result: [
+        { result_id: 'r1', administrative_id: 'a1', ident_protocol: 'P001', analytical_code: 'GLU', orderdetail_id: 'other-centre', order_link_source: 'auto', is_active: true },
+      ],
+      translation: [{ code_labo: 'GLU', code_hw: 'HW-GLU', is_active: true }],
+      order: [
+        { order_id: 'o1', status: 'resulted', is_active: true },
+        { order_id: 'o2', status: 'sent', is_active: true },
+      ],
+      orderdetail: [
+        { ...orderLine('other-centre', 'CBXYZ0325009', 'P001', 'HW-GLU', 1), order_id: 'o1', status: 'resulted', resulted_at: '2025-03-10', is_active: true },
+        { ...orderLine('own', 'CAHWF0325001', 'HW-2', 'HW-GLU', 2), order_id: 'o2', status: 'sent', resulted_at: null, is_active: true },
+      ],
+    });
+
+    const summary = await OrderResultLinkService.linkAdministrativeResults(supabase, ['a1']);
+
+    expect(summary).toEqual({ linked: 1, unmatched: 0 });
+    expect(tables.result[0]).toMatchObject({ orderdetail_id: 'own', order_link_source: 'auto' });
+    expect(tables.orderdetail.map(line => [line.orderdetail_id, line.status])).toEqual([['other-centre', 'sent'], ['own', 'resulted']]);
+    expect(tables.order.map(order => [order.order_id, order.status])).toEqual([['o1', 'sent'], ['o2', 'resulted']]);
+  });
+});
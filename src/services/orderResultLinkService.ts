@@ -0,0 +1,243 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OrderStatusService } from './orderStatusService';
+
+// Origen del enlace entre un resultado y su línea de pedido (columna result.order_link_source)
+export type OrderLinkSource = 'auto' | 'manual';
+
+// Línea de pedido candidata (tabla orderdetail)
+export interface OrderLine {
+  orderdetail_id: string;
+  order_id: string;
+  number: number;
+  ref_patient: string;
+  ref_analyze: string;
+  code: string;
+  nomenclature_examen?: string;
+  name_patient?: string;
+}
+
+// Resultado del enlazado de un conjunto de registros administrativos
+export interface OrderLinkSummary {
+  linked: number; // Resultados enlazados a una línea de pedido
+  unmatched: number; // Resultados sin línea de pedido (llegaron sin pedido)
+}
+
+/**
+ * Elige la línea de pedido de un resultado.
+ * El laboratorio devuelve ref_patient en el identificador externo del A2 y ref_analyze como id de protocolo:
+ * - Si el protocolo es el ref_analyze de una línea, todos sus resultados son de esa línea.
+ *   Los id de protocolo solo son únicos dentro de cada centro: si el A2 trae identificador externo,
+ *   la línea tiene que ser además de ese paciente.
+ * - Si no, se busca entre las líneas del paciente (ref_patient) la del código HW que traduce el código de análisis.
+ * Con varias líneas posibles se elige la de menor número.
+ */
+export const pickOrderLine = (
+  administrative: { ident_protocol?: string | null; external_identifier?: string | null },
+  result: { ident_protocol?: string | null; analytical_code?: string | null },
+  lines: OrderLine[],
+  codesHwByCodeLabo: Map<string, Set<string>>
+): OrderLine | null => {
+  const protocolIds = [administrative.ident_protocol, result.ident_protocol].filter((id): id is string => !!id);
+  const byAnalysisRef = lines.find(line =>
+    protocolIds.includes(line.ref_analyze)
+    && (!administrative.external_identifier || line.ref_patient === administrative.external_identifier));
+  if (byAnalysisRef) return byAnalysisRef;
+
+  const codesHw = codesHwByCodeLabo.get(result.analytical_code || '');
+  if (!administrative.external_identifier || !codesHw) return null;
+  return lines.find(line => line.ref_patient === administrative.external_identifier && codesHw.has(line.code)) || null;
+};
+
+/**
+ * Servicio que enlaza los resultados importados (tabla result) con las líneas de pedido (tabla orderdetail)
+ * que los solicitaron. El enlace se guarda en result.orderdetail_id.
+ */
+export const OrderResultLinkService = {
+  /**
+   * Enlaza automáticamente los resultados activos de unos registros administrativos con sus líneas de pedido.
+   * Los enlaces manuales no se tocan; los automáticos se recalculan (p. ej. si la línea ya no está activa).
+   * Las líneas con resultado pasan al estado 'resulted'; las que pierden su último resultado vuelven atrás.
+   * @param supabase Cliente de Supabase.
+   * @param administrativeIds Registros administrativos cuyos resultados se enlazan.
+   * @returns Cuántos resultados quedaron enlazados y cuántos sin pedido.
+   * @throws Error si alguna consulta o actualización falla.
+   */
+  linkAdministrativeResults: async (supabase: SupabaseClient, administrativeIds: string[]): Promise<OrderLinkSummary> => {
+    const summary: OrderLinkSummary = { linked: 0, unmatched: 0 };
+    if (administrativeIds.length === 0) return summary;
+
+    const { data: administratives, error: adminError } = await supabase
+      .from('administrative')
+      .select('administrative_id, ident_protocol, external_identifier')
+      .in('administrative_id', administrativeIds)
+      .eq('is_active', true);
+
+    if (adminError) {
+      throw new Error(`Error al obtener los registros administrativos: ${adminError.message}`);
+    }
+    if (!administratives || administratives.length === 0) return summary;
+
+    const { data: results, error: resultError } = await supabase
+      .from('result')
+      .select('result_id, administrative_id, ident_protocol, analytical_code, orderdetail_id, order_link_source')
+      .in('administrative_id', administratives.map(admin => admin.administrative_id))
+      .eq('is_active', true);
+
+    if (resultError) {
+      throw new Error(`Error al obtener los resultados: ${resultError.message}`);
+    }
+
+    // Los enlaces manuales (también los desenlazados a mano) se cuentan tal como están
+    const autoResults = (results || []).filter(result => result.order_link_source !== 'manual');
+    for (const result of (results || []).filter(result => result.order_link_source === 'manual')) {
+      if (result.orderdetail_id) summary.linked++; else summary.unmatched++;
+    }
+    if (autoResults.length === 0) return summary;
+
+    // Líneas candidatas: las del paciente (A2) o las de un análisis enviado como id de protocolo
+    const patientRefs = [...new Set(administratives.map(admin => admin.external_identifier).filter(Boolean))];
+    const analysisRefs = [...new Set([
+      ...administratives.map(admin => admin.ident_protocol),
+      ...autoResults.map(result => result.ident_protocol),
+    ].filter(Boolean))];
+    const lines = await OrderResultLinkService.findCandidateLines(supabase, patientRefs, analysisRefs);
+
+    // Traducción de los códigos del laboratorio a códigos HW (los de las líneas de pedido)
+    const codesLabo = [...new Set(autoResults.map(result => result.analytical_code).filter(Boolean))];
+    const codesHwByCodeLabo = new Map<string, Set<string>>();
+    if (codesLabo.length > 0) {
+      const { data: translations, error: translationError } = await supabase
+        .from('translation')
+        .select('code_labo, code_hw')
+        .in('code_labo', codesLabo)
+        .eq('is_active', true);
+
+      if (translationError) {
+        throw new Error(`Error al obtener las traducciones de códigos: ${translationError.message}`);
+      }
+      for (const translation of translations || []) {
+        if (!codesHwByCodeLabo.has(translation.code_labo)) codesHwByCodeLabo.set(translation.code_labo, new Set());
+        codesHwByCodeLabo.get(translation.code_labo)!.add((translation.code_hw || '').trim());
+      }
+    }
+
+    // Se agrupan los resultados por línea para actualizar con una consulta por línea
+    const resultIdsByLine = new Map<string | null, string[]>();
+    const resultedLineIds = new Set<string>();
+    const previousLineIds = new Set<string>(); // Líneas de las que se desenlaza algún resultado
+    for (const result of autoResults) {
+      const administrative = administratives.find(admin => admin.administrative_id === result.administrative_id)!;
+      const line = pickOrderLine(administrative, result, lines, codesHwByCodeLabo);
+      const lineId = line ? line.orderdetail_id : null;
+      if (line) {
+        summary.linked++;
+        resultedLineIds.add(line.orderdetail_id);
+      } else {
+        summary.unmatched++;
+      }
+      if ((result.orderdetail_id || null) === lineId && (lineId === null || result.order_link_source === 'auto')) continue;
+      if (result.orderdetail_id && result.orderdetail_id !== lineId) previousLineIds.add(result.orderdetail_id);
+      if (!resultIdsByLine.has(lineId)) resultIdsByLine.set(lineId, []);
+      resultIdsByLine.get(lineId)!.push(result.result_id);
+    }
+
+    for (const [lineId, resultIds] of resultIdsByLine) {
+      const { error: updateError } = await supabase
+        .from('result')
+        .update({ orderdetail_id: lineId, order_link_source: lineId ? 'auto' : null, updated_at: new Date().toISOString() })
+        .in('result_id', resultIds);
+
+      if (updateError) {
+        throw new Error(`Error al enlazar resultados con el pedido: ${updateError.message}`);
+      }
+    }
+
+    await OrderStatusService.advanceLines(supabase, [...resultedLineIds], 'resulted');
+    await OrderStatusService.releaseLines(supabase, [...previousLineIds]);
+    return summary;
+  },
+
+  /**
+   * Obtiene las líneas de pedido activas de unos pacientes o análisis.
+   * @param supabase Cliente de Supabase.
+   * @param patientRefs Valores de ref_patient.
+   * @param analysisRefs Valores de ref_analyze.
+   * @returns Las líneas, ordenadas por pedido y número.
+   * @throws Error si la consulta falla.
+   */
+  findCandidateLines: async (supabase: SupabaseClient, patientRefs: string[], analysisRefs: string[]): Promise<OrderLine[]> => {
+    const lines: OrderLine[] = [];
+    for (const [column, values] of [['ref_patient', patientRefs], ['ref_analyze', analysisRefs]] as const) {
+      if (values.length === 0) continue;
+      const { data, error } = await supabase
+        .from('orderdetail')
+        .select('orderdetail_id, order_id, number, ref_patient, ref_analyze, code, nomenclature_examen, name_patient')
+        .in(column, values)
+        .eq('is_active', true)
+        .order('number', { ascending: true });
+
+      if (error) {
+        throw new Error(`Error al obtener las líneas de pedido: ${error.message}`);
+      }
+      for (const line of data || []) {
+        if (!lines.some(existing => existing.orderdetail_id === line.orderdetail_id)) lines.push(line);
+      }
+    }
+    return lines.sort((a, b) => a.number - b.number);
+  },
+
+  /**
+   * Vuelve a enlazar los resultados de los pacientes de un pedido (p. ej. resultados importados
+   * antes de confirmar el pedido).
+   * @param supabase Cliente de Supabase.
+   * @param orderId Id del pedido.
+   * @returns El resumen del enlazado, o null si el pedido no tiene líneas activas.
+   * @throws Error si alguna consulta falla.
+   */
+  relinkOrder: async (supabase: SupabaseClient, orderId: string): Promise<OrderLinkSummary | null> => {
+    const { data: lines, error: linesError } = await supabase
+      .from('orderdetail')
+      .select('ref_patient, ref_analyze')
+      .eq('order_id', orderId)
+      .eq('is_active', true);
+
+    if (linesError) {
+      throw new Error(`Error al obtener las líneas del pedido: ${linesError.message}`);
+    }
+    if (!lines || lines.length === 0) return null;
+
+    const administrativeIds = await OrderResultLinkService.findAdministrativesForLines(supabase, lines);
+    return OrderResultLinkService.linkAdministrativeResults(supabase, administrativeIds);
+  },
+
+  /**
+   * Busca los registros administrativos activos de los pacientes o análisis de unas líneas de pedido.
+   * @returns Los administrative_id encontrados.
+   * @throws Error si la consulta falla.
+   */
+  findAdministrativesForLines: async (
+    supabase: SupabaseClient,
+    lines: { ref_patient: string; ref_analyze: string }[]
+  ): Promise<string[]> => {
+    const administrativeIds = new Set<string>();
+    const lookups = [
+      ['external_identifier', [...new Set(lines.map(line => line.ref_patient).filter(Boolean))]],
+      ['ident_protocol', [...new Set(lines.map(line => line.ref_analyze).filter(Boolean))]],
+    ] as const;
+
+    for (const [column, values] of lookups) {
+      if (values.length === 0) continue;
+      const { data, error } = await supabase
+        .from('administrative')
+        .select('administrative_id')
+        .in(column, values)
+        .eq('is_active', true);
+
+      if (error) {
+        throw new Error(`Error al obtener los registros administrativos: ${error.message}`);
+      }
+      for (const admin of data || []) administrativeIds.add(admin.administrative_id);
+    }
+    return [...administrativeIds];
+  },
+};
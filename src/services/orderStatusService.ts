@@ -0,0 +1,208 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  canTransitionOrder,
+  canTransitionOrderLine,
+  deriveOrderStatus,
+  OrderLineStatus,
+  OrderStatus,
+  statusUpdate,
+} from '../utils/orderStatus';
+
+/**
+ * Servicio que hace avanzar el estado de los pedidos y de sus líneas (ver utils/orderStatus).
+ * Los cambios que no son una transición permitida se ignoran: los estados nunca retroceden,
+ * salvo cuando se quitan resultados a las líneas (releaseLines).
+ */
+export const OrderStatusService = {
+  /**
+   * Pasa unas líneas de pedido a un estado, si la transición está permitida,
+   * y recalcula el estado de sus pedidos.
+   * Las líneas ya facturadas que reciben su resultado conservan el estado y solo guardan resulted_at.
+   * @param supabase Cliente de Supabase.
+   * @param orderdetailIds Líneas a actualizar.
+   * @param status Estado destino.
+   * @returns Los ids de los pedidos afectados.
+   * @throws Error si alguna consulta o actualización falla.
+   */
+  advanceLines: async (supabase: SupabaseClient, orderdetailIds: string[], status: OrderLineStatus): Promise<string[]> => {
+    if (orderdetailIds.length === 0) return [];
+
+    const { data: lines, error } = await supabase
+      .from('orderdetail')
+      .select('orderdetail_id, order_id, status, resulted_at')
+      .in('orderdetail_id', orderdetailIds)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Error al obtener las líneas de pedido: ${error.message}`);
+    }
+
+    const linesToUpdate = (lines || []).filter(line => canTransitionOrderLine(line.status || 'draft', status));
+    const invoicedLinesResulted = status === 'resulted'
+      ? (lines || []).filter(line => line.status === 'invoiced' && !line.resulted_at)
+      : [];
+
+    if (linesToUpdate.length > 0) {
+      const { error: updateError } = await supabase
+        .from('orderdetail')
+        .update(statusUpdate(status))
+        .in('orderdetail_id', linesToUpdate.map(line => line.orderdetail_id));
+
+      if (updateError) {
+        throw new Error(`Error al actualizar el estado de las líneas de pedido: ${updateError.message}`);
+      }
+    }
+
+    if (invoicedLinesResulted.length > 0) {
+      const now = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('orderdetail')
+        .update({ resulted_at: now, updated_at: now })
+        .in('orderdetail_id', invoicedLinesResulted.map(line => line.orderdetail_id));
+
+      if (updateError) {
+        throw new Error(`Error al guardar el resultado de las líneas facturadas: ${updateError.message}`);
+      }
+    }
+
+    const orderIds = [...new Set([...linesToUpdate, ...invoicedLinesResulted].map(line => line.order_id))];
+    for (const orderId of orderIds) {
+      await OrderStatusService.refreshOrder(supabase, orderId);
+    }
+    return orderIds;
+  },
+
+  /**
+   * Recalcula las líneas de pedido que han perdido resultados (p. ej. al deshacer una importación).
+   * Las que ya no tienen ningún resultado activo enlazado vuelven a 'sent', o pierden resulted_at si
+   * están facturadas, y sus pedidos se recalculan aunque el estado retroceda.
+   * @param supabase Cliente de Supabase.
+   * @param orderdetailIds Líneas a las que se les han quitado resultados.
+   * @returns Los ids de los pedidos afectados.
+   * @throws Error si alguna consulta o actualización falla.
+   */
+  releaseLines: async (supabase: SupabaseClient, orderdetailIds: string[]): Promise<string[]> => {
+    if (orderdetailIds.length === 0) return [];
+
+    const { data: lines, error } = await supabase
+      .from('orderdetail')
+      .select('orderdetail_id, order_id, status, resulted_at')
+      .in('orderdetail_id', orderdetailIds)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Error al obtener las líneas de pedido: ${error.message}`);
+    }
+
+    const { data: results, error: resultError } = await supabase
+      .from('result')
+      .select('orderdetail_id')
+      .in('orderdetail_id', orderdetailIds)
+      .eq('is_active', true);
+
+    if (resultError) {
+      throw new Error(`Error al obtener los resultados de las líneas de pedido: ${resultError.message}`);
+    }
+
+    const lineIdsWithResult = new Set((results || []).map(result => result.orderdetail_id));
+    const linesWithoutResult = (lines || []).filter(line => !lineIdsWithResult.has(line.orderdetail_id));
+    const now = new Date().toISOString();
+
+    const resultedLineIds = linesWithoutResult.filter(line => line.status === 'resulted').map(line => line.orderdetail_id);
+    if (resultedLineIds.length > 0) {
+      const { error: updateError } = await supabase
+        .from('orderdetail')
+        .update({ status: 'sent', resulted_at: null, status_updated_at: now, updated_at: now })
+        .in('orderdetail_id', resultedLineIds);
+
+      if (updateError) {
+        throw new Error(`Error al actualizar el estado de las líneas de pedido: ${updateError.message}`);
+      }
+    }
+
+    const invoicedLineIds = linesWithoutResult.filter(line => line.status === 'invoiced' && line.resulted_at).map(line => line.orderdetail_id);
+    if (invoicedLineIds.length > 0) {
+      const { error: updateError } = await supabase
+        .from('orderdetail')
+        .update({ resulted_at: null, updated_at: now })
+        .in('orderdetail_id', invoicedLineIds);
+
+      if (updateError) {
+        throw new Error(`Error al quitar el resultado de las líneas facturadas: ${updateError.message}`);
+      }
+    }
+
+    const orderIds = [...new Set(linesWithoutResult.map(line => line.order_id))];
+    for (const orderId of orderIds) {
+      await OrderStatusService.refreshOrder(supabase, orderId, true);
+    }
+    return orderIds;
+  },
+
+  /**
+   * Recalcula el estado de un pedido a partir del de sus líneas activas.
+   * @param supabase Cliente de Supabase.
+   * @param orderId Id del pedido.
+   * @param allowBackward Aplica el estado derivado aunque retroceda (solo al quitar resultados).
+   * @returns El estado del pedido tras el recálculo, o null si no existe.
+   * @throws Error si alguna consulta o actualización falla.
+   */
+  refreshOrder: async (supabase: SupabaseClient, orderId: string, allowBackward: boolean = false): Promise<OrderStatus | null> => {
+    const { data: order, error: orderError } = await supabase
+      .from('order')
+      .select('order_id, status')
+      .eq('order_id', orderId)
+      .single();
+
+    if (orderError) {
+      if (orderError.code === 'PGRST116') return null;
+      throw new Error(`Error al obtener el pedido ${orderId}: ${orderError.message}`);
+    }
+
+    const { data: lines, error: linesError } = await supabase
+      .from('orderdetail')
+      .select('status, resulted_at')
+      .eq('order_id', orderId)
+      .eq('is_active', true);
+
+    if (linesError) {
+      throw new Error(`Error al obtener las líneas del pedido ${orderId}: ${linesError.message}`);
+    }
+
+    const current: OrderStatus = order.status || 'draft';
+    const derived = deriveOrderStatus((lines || []).map(line => ({ status: line.status || 'draft', resulted_at: line.resulted_at })));
+    if (derived === current || (!allowBackward && !canTransitionOrder(current, derived))) return current;
+
+    const { error: updateError } = await supabase
+      .from('order')
+      .update(statusUpdate(derived))
+      .eq('order_id', orderId);
+
+    if (updateError) {
+      throw new Error(`Error al actualizar el estado del pedido ${orderId}: ${updateError.message}`);
+    }
+    return derived;
+  },
+
+  /**
+   * Marca como facturadas las líneas de pedido de unos pacientes (ref_patient de la factura).
+   * @param supabase Cliente de Supabase.
+   * @param patientRefs Valores de ref_patient facturados.
+   * @returns Los ids de los pedidos afectados.
+   * @throws Error si alguna consulta o actualización falla.
+   */
+  markPatientsInvoiced: async (supabase: SupabaseClient, patientRefs: string[]): Promise<string[]> => {
+    if (patientRefs.length === 0) return [];
+
+    const { data: lines, error } = await supabase
+      .from('orderdetail')
+      .select('orderdetail_id')
+      .in('ref_patient', patientRefs)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Error al obtener las líneas de pedido facturadas: ${error.message}`);
+    }
+    return OrderStatusService.advanceLines(supabase, (lines || []).map(line => line.orderdetail_id), 'invoiced');
+  },
+};
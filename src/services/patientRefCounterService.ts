@@ -0,0 +1,49 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Servicio para los contadores de referencias de paciente (ref_patient) de las previsualizaciones de pedidos.
+ * Hay un contador persistente por centro médico y mes (tabla patientrefcounter). La reserva se hace en la
+ * función de base de datos reserve_patient_correlatives_batch (supabase/migrations/20261019000100_patient_ref_counter_batch.sql),
+ * que bloquea la fila del contador, así que dos previsualizaciones creadas a la vez nunca reciben los mismos números.
+ * Un contador nuevo parte del mayor correlativo ya entregado en ese mes.
+ */
+export const PatientRefCounterService = {
+  /**
+   * Reserva bloques de correlativos consecutivos para varios centros del mismo mes, con una sola llamada
+   * a la función reserve_patient_correlatives_batch (una consulta por petición, sea cual sea el número de centros).
+   * @param supabase Cliente de Supabase.
+   * @param year Año de la previsualización.
+   * @param month Mes de la previsualización.
+   * @param counts Número de correlativos a reservar por centre_id.
+   * @returns El primer correlativo del bloque de cada centro (el bloque es [primero, primero + count - 1]).
+   * @throws Error si la reserva falla.
+   */
+  reserveCorrelatives: async (
+    supabase: SupabaseClient,
+    year: number,
+    month: number,
+    counts: { [centreId: string]: number }
+  ): Promise<{ [centreId: string]: number }> => {
+    const { data, error } = await supabase.rpc('reserve_patient_correlatives_batch', {
+      _year: year,
+      _month: month,
+      _counts: counts,
+    });
+
+    if (error || !Array.isArray(data)) {
+      throw new Error(`Error al reservar correlativos de paciente: ${error?.message}`);
+    }
+
+    // La función devuelve el último valor reservado de cada centro
+    const firstValues: { [centreId: string]: number } = {};
+    for (const row of data as { centre_id: string; last_value: number }[]) {
+      firstValues[row.centre_id] = row.last_value - counts[row.centre_id] + 1;
+    }
+
+    const missing = Object.keys(counts).filter(centreId => firstValues[centreId] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Error al reservar correlativos de paciente: sin respuesta para los centros ${missing.join(', ')}`);
+    }
+    return firstValues;
+  },
+};
@@ -0,0 +1,134 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Cliente de Supabase en memoria para los tests: cada tabla es una lista de filas y las consultas
+// aplican los filtros que usa el código (eq, neq, in, is, not is, like, gte, lte). No hay red ni esquema.
+
+type Row = { [column: string]: any };
+type Filter = (row: Row) => boolean;
+
+export interface FakeSupabase {
+  supabase: SupabaseClient;
+  tables: { [table: string]: Row[] };
+  calls: string[]; // Una entrada por from() / rpc()
+}
+
+// Convierte un patrón LIKE en una expresión regular
+const likeToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/_/g, '.').replace(/%/g, '.*')}$`);
+
+/**
+ * Crea un cliente en memoria.
+ * @param tables Filas iniciales de cada tabla (se modifican en el sitio).
+ * @param options idColumns: columna de id que se rellena al insertar, por tabla.
+ *   defaults: valores por defecto de las columnas al insertar, por tabla (p. ej. is_active).
+ *   rpc: implementación de las funciones de base de datos que usa el test.
+ */
+export const createFakeSupabase = (
+  tables: { [table: string]: Row[] } = {},
+  options: {
+    idColumns?: { [table: string]: string };
+    defaults?: { [table: string]: Row };
+    rpc?: { [name: string]: (params: any, tables: { [table: string]: Row[] }) => any };
+  } = {}
+): FakeSupabase => {
+  const calls: string[] = [];
+  let nextId = 1;
+
+  const from = (table: string) => {
+    calls.push(table);
+    const rows = (tables[table] ||= []);
+    const filters: Filter[] = [];
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let payload: Row[] = [];
+    let changes: Row = {};
+    let single = false;
+    let limit: number | null = null;
+    let orderBy: { column: string; ascending: boolean } | null = null;
+
+    const execute = () => {
+      let data: Row[];
+      if (operation === 'insert') {
+        const idColumn = options.idColumns?.[table];
+        data = payload.map(row => ({
+          ...(idColumn ? { [idColumn]: `${table}-${nextId++}` } : {}),
+          ...options.defaults?.[table],
+          ...row,
+        }));
+        rows.push(...data);
+      } else {
+        const matching = rows.filter(row => filters.every(filter => filter(row)));
+        if (operation === 'update') {
+          matching.forEach(row => Object.assign(row, changes));
+        } else if (operation === 'delete') {
+          const kept = rows.filter(row => !matching.includes(row));
+          rows.splice(0, rows.length, ...kept);
+        }
+        data = matching.map(row => ({ ...row }));
+      }
+
+      if (orderBy) {
+        const { column, ascending } = orderBy;
+        data.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+      }
+      if (limit !== null) data = data.slice(0, limit);
+
+      if (single) {
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: { code: 'PGRST116', message: `${data.length} rows returned` } };
+      }
+      return { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      returns: () => builder,
+      insert: (rowsToInsert: Row | Row[]) => {
+        operation = 'insert';
+        payload = Array.isArray(rowsToInsert) ? rowsToInsert : [rowsToInsert];
+        return builder;
+      },
+      update: (values: Row) => {
+        operation = 'update';
+        changes = values;
+        return builder;
+      },
+      delete: () => {
+        operation = 'delete';
+        return builder;
+      },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      neq: (column: string, value: any) => { filters.push(row => row[column] !== value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      is: (column: string, value: null) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      not: (column: string, operator: string, value: any) => {
+        if (operator !== 'is') throw new Error(`fakeSupabase: not(${operator}) no soportado`);
+        filters.push(row => (row[column] ?? null) !== value);
+        return builder;
+      },
+      like: (column: string, pattern: string) => { filters.push(row => likeToRegExp(pattern).test(row[column] ?? '')); return builder; },
+      gte: (column: string, value: any) => { filters.push(row => row[column] >= value); return builder; },
+      lte: (column: string, value: any) => { filters.push(row => row[column] <= value); return builder; },
+      order: (column: string, { ascending = true }: { ascending?: boolean } = {}) => { orderBy = { column, ascending }; return builder; },
+      limit: (count: number) => { limit = count; return builder; },
+      single: () => { single = true; return builder; },
+      then: (resolve: (value: any) => void, reject: (reason: any) => void) => {
+        try {
+          resolve(execute());
+        } catch (err) {
+          reject(err);
+        }
+      },
+    };
+    return builder;
+  };
+
+  const rpc = async (name: string, params: any) => {
+    calls.push(`rpc:${name}`);
+    const handler = options.rpc?.[name];
+    if (!handler) return { data: null, error: { message: `fakeSupabase: función ${name} no definida` } };
+    return { data: handler(params, tables), error: null };
+  };
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, tables, calls };
+};
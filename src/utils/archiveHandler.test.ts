@@ -0,0 +1,179 @@
+import SevenZip from '7z-wasm';
+import * as tar from 'tar-stream';
+import { crc32, deflateRawSync, gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ArchiveLimitError, ArchiveLimits, decompressArchive } from './archiveHandler';
+
+type Entry = { path: string; data: Buffer | string };
+
+const LIMITS: ArchiveLimits = { maxEntries: 10, maxTotalBytes: 10 * 1024 * 1024, maxRatio: 100, maxDepth: 3 };
+
+// ZIP mínimo (deflate, sin cifrar): cabeceras locales, directorio central y registro final
+const createZip = (entries: Entry[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path);
+    const data = Buffer.from(entry.data);
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Versión necesaria
+    local.writeUInt16LE(8, 8); // Método: deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Versión de creación
+    central.writeUInt16LE(20, 6); // Versión necesaria
+    central.writeUInt16LE(8, 10); // Método: deflate
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+const createTar = (entries: Entry[]): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const pack = tar.pack();
+    const chunks: Buffer[] = [];
+    pack.on('data', (chunk: unknown) => chunks.push(chunk as Buffer));
+    pack.on('end', () => resolve(Buffer.concat(chunks)));
+    pack.on('error', reject);
+    for (const entry of entries) pack.entry({ name: entry.path }, Buffer.from(entry.data));
+    pack.finalize();
+  });
+
+// 7z creado con el mismo 7-Zip WASM que lo descomprime
+const create7z = async (entries: Entry[], password = ''): Promise<Buffer> => {
+  const sevenZip = await SevenZip({ print: () => undefined, printErr: () => undefined });
+  sevenZip.FS.mkdir('/in');
+  sevenZip.FS.chdir('/in');
+  for (const entry of entries) sevenZip.FS.writeFile(entry.path, Buffer.from(entry.data));
+  const args = ['a', '/archive.7z', ...entries.map(entry => entry.path), ...(password ? [`-p${password}`, '-mhe=on'] : [])];
+  sevenZip.callMain(args);
+  return Buffer.from(sevenZip.FS.readFile('/archive.7z'));
+};
+
+const decompressed = (files: { path: string; data: Buffer }[]) =>
+  files.map(file => [file.path, file.data.toString()]);
+
+const LAB_A = { path: 'a.lab', data: 'A1\\P001\\LAB01\\' };
+const LAB_B = { path: 'b.lab', data: 'A1\\P002\\LAB01\\' };
+
+describe('decompressArchive', () => {
+  describe('formats', () => {
+    it('reads a zip', async () => {
+      const files = await decompressArchive(createZip([LAB_A, LAB_B]), '.zip', [], 'upload.zip', LIMITS);
+      expect(decompressed(files)).toEqual([['a.lab', LAB_A.data], ['b.lab', LAB_B.data]]);
+    });
+
+    it('reads a tar and a tar.gz', async () => {
+      const tarData = await createTar([LAB_A, LAB_B]);
+      expect(decompressed(await decompressArchive(tarData, '.tar', [], 'upload.tar', LIMITS)))
+        .toEqual([['a.lab', LAB_A.data], ['b.lab', LAB_B.data]]);
+      expect(decompressed(await decompressArchive(gzipSync(tarData), '.tar.gz', [], 'upload.tar.gz', LIMITS)))
+        .toEqual([['a.lab', LAB_A.data], ['b.lab', LAB_B.data]]);
+    });
+
+    it('names a gzip file after the upload without .gz', async () => {
+      const files = await decompressArchive(gzipSync(LAB_A.data), '.gz', [], 'resultados.lab.gz', LIMITS);
+      expect(decompressed(files)).toEqual([['resultados.lab', LAB_A.data]]);
+    });
+
+    it('reads a 7z and reports the password that opened it', async () => {
+      const usedPasswords: string[] = [];
+      const files = await decompressArchive(await create7z([LAB_A], 'secreto'), '.7z', ['otra', 'secreto'], 'upload.7z', LIMITS,
+        password => usedPasswords.push(password));
+
+      expect(decompressed(files)).toEqual([['a.lab', LAB_A.data]]);
+      expect(usedPasswords).toEqual(['secreto']);
+    });
+
+    it('decompresses nested archives and prefixes their paths', async () => {
+      const inner = gzipSync(await createTar([LAB_B]));
+      const files = await decompressArchive(createZip([LAB_A, { path: 'lote/inner.tgz', data: inner }]), '.zip', [], 'upload.zip', LIMITS);
+
+      expect(decompressed(files)).toEqual([['a.lab', LAB_A.data], ['lote/inner.tgz/b.lab', LAB_B.data]]);
+    });
+
+    it('returns a plain result file as its only entry', async () => {
+      const files = await decompressArchive(Buffer.from(LAB_A.data), '.lab', [], 'a.lab', LIMITS);
+      expect(decompressed(files)).toEqual([['a.lab', LAB_A.data]]);
+    });
+  });
+
+  describe('limits', () => {
+    const limitError = async (promise: Promise<unknown>) => {
+      const error = await promise.then(() => null, (err: unknown) => err);
+      expect(error).toBeInstanceOf(ArchiveLimitError);
+      return error as ArchiveLimitError;
+    };
+
+    it('rejects more entries than allowed, counting nested archives', async () => {
+      const inner = await createTar([LAB_A, LAB_B]);
+      const zip = createZip([{ path: 'inner.tar', data: inner }, { path: 'c.lab', data: 'x' }]);
+
+      const error = await limitError(decompressArchive(zip, '.zip', [], 'upload.zip', { ...LIMITS, maxEntries: 3 }));
+      expect(error.statusCode).toBe(413);
+    });
+
+    it('rejects a total size over the maximum', async () => {
+      const big = { path: 'big.lab', data: 'x'.repeat(2048) };
+
+      for (const [data, extension] of [[createZip([big]), '.zip'], [await createTar([big]), '.tar'], [gzipSync(big.data), '.gz']] as const) {
+        const error = await limitError(decompressArchive(data, extension, [], `upload${extension}`, { ...LIMITS, maxTotalBytes: 1024 }));
+        expect(error.statusCode).toBe(413);
+      }
+    });
+
+    it('rejects a suspicious compression ratio', async () => {
+      const zeros = Buffer.alloc(2 * 1024 * 1024); // 2 MB que se comprimen a unos pocos KB
+
+      await limitError(decompressArchive(gzipSync(zeros), '.gz', [], 'bomb.lab.gz', LIMITS));
+      await limitError(decompressArchive(createZip([{ path: 'bomb.lab', data: zeros }]), '.zip', [], 'bomb.zip', LIMITS));
+    });
+
+    it('rejects archives nested deeper than allowed', async () => {
+      const level2 = createZip([{ path: 'level2.tar.gz', data: gzipSync(await createTar([LAB_A])) }]);
+      const level1 = createZip([{ path: 'level1.zip', data: level2 }]);
+
+      const error = await limitError(decompressArchive(level1, '.zip', [], 'upload.zip', { ...LIMITS, maxDepth: 1 }));
+      expect(error.statusCode).toBe(422);
+    });
+
+    it.each([
+      ['a parent directory', '../evil.lab'],
+      ['a nested parent directory', 'lote/../../evil.lab'],
+      ['an absolute path', '/etc/evil.lab'],
+      ['a drive letter', 'C:\\evil.lab'],
+    ])('rejects entries with %s', async (_, entryPath) => {
+      const entries = [{ path: entryPath, data: 'x' }];
+
+      expect((await limitError(decompressArchive(createZip(entries), '.zip', [], 'upload.zip', LIMITS))).statusCode).toBe(400);
+      expect((await limitError(decompressArchive(await createTar(entries), '.tar', [], 'upload.tar', LIMITS))).statusCode).toBe(400);
+    });
+  });
+});
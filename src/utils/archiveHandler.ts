@@ -1,58 +1,203 @@
-import { SupabaseClient } from '@supabase/supabase-js';
 import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
 import * as path from 'path';
+import { Readable } from 'stream';
 import * as unzipper from 'unzipper'; // Importamos unzipper
+import * as tar from 'tar-stream'; // Lectura de archivos .tar
+import SevenZip from '7z-wasm'; // 7-Zip compilado a WASM para los archivos .7z
+import { promisify } from 'util';
+import { createGunzip, gunzip as gunzipCallback } from 'zlib';
+
+const gunzip = promisify(gunzipCallback);
+
+// Extensiones de archivo aceptadas en la subida: comprimidos y archivos de resultados sin comprimir
+export const SUPPORTED_ARCHIVE_EXTENSIONS = ['.zip', '.7z', '.tar', '.tar.gz', '.tgz', '.gz'];
+export const PLAIN_RESULT_EXTENSIONS = ['.lab', '.hl7', '.oru'];
+
+type DecompressedFile = { path: string; data: Buffer };
+
+// Archivo a descomprimir: en memoria (Buffer) o en disco (ruta). Las subidas llegan en disco
+// y se leen por streaming; los archivos anidados, ya descomprimidos, están en memoria.
+export type ArchiveSource = Buffer | string;
+
+// Tamaño en bytes del archivo comprimido
+const getSourceSize = async (source: ArchiveSource): Promise<number> =>
+  typeof source === 'string' ? (await fs.stat(source)).size : source.length;
 
 /**
- * Intenta descomprimir un buffer de archivo comprimido con o sin contraseña.
- * Actualmente solo soporta archivos .zip.
- * @param buffer El buffer del archivo comprimido (solo ZIP).
- * @param fileExtension La extensión original del archivo (ej. '.zip').
- * @param passwords Un array de contraseñas a probar.
- * @returns Un array de objetos { path: string, data: Buffer } para cada archivo descomprimido.
- * @throws Error si la descompresión falla o el formato no es soportado.
+ * Devuelve la extensión de un archivo subido, reconociendo las extensiones dobles (.tar.gz).
+ * @param fileName Nombre original del archivo.
+ * @returns La extensión en minúsculas (ej. '.zip', '.tar.gz', '.lab').
  */
-export const decompressArchive = async (
-  buffer: Buffer,
-  fileExtension: string,
-  passwords: string[] = []
-): Promise<{ path: string; data: Buffer }[]> => {
-  console.log(`Attempting to decompress file with extension: ${fileExtension}`);
+export const getArchiveExtension = (fileName: string): string => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.tar.gz')) return '.tar.gz';
+  return path.extname(lowerName);
+};
+
+// Límites de seguridad para la descompresión (protección contra zip bombs)
+export interface ArchiveLimits {
+  maxEntries: number; // Número máximo de archivos, contando los de archivos anidados
+  maxTotalBytes: number; // Tamaño descomprimido total máximo
+  maxRatio: number; // Relación máxima tamaño descomprimido / comprimido
+  maxDepth: number; // Profundidad máxima de archivos comprimidos anidados
+}
+
+// Por debajo de este tamaño no se comprueba la relación de compresión:
+// los archivos pequeños y repetitivos pueden comprimirse mucho sin ser peligrosos.
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+/**
+ * Error lanzado cuando un archivo comprimido supera un límite de seguridad o contiene rutas inseguras.
+ * statusCode indica el código HTTP con el que debe responderse.
+ */
+export class ArchiveLimitError extends Error {
+  statusCode: number;
 
-  if (fileExtension !== '.zip') {
-    throw new Error('Formato de archivo no soportado. Solo .zip es aceptado.');
+  constructor(message: string, statusCode: number = 413) {
+    super(message);
+    this.name = 'ArchiveLimitError';
+    this.statusCode = statusCode;
   }
+}
 
-  let decompressedFiles: { path: string; data: Buffer }[] = [];
-  let success = false;
+const readPositiveIntEnv = (name: string, defaultValue: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+};
 
-  // Aseguramos que la lista de contraseñas incluya una cadena vacía para el intento sin contraseña
-  // y que las contraseñas no estén duplicadas.
-  const allPasswordsToTry = Array.from(new Set(['', ...passwords]));
+/**
+ * Devuelve los límites de descompresión configurados en el entorno, con valores por defecto.
+ * Se leen en cada llamada porque dotenv se carga después de importar este módulo.
+ */
+export const getArchiveLimits = (): ArchiveLimits => ({
+  maxEntries: readPositiveIntEnv('ARCHIVE_MAX_ENTRIES', 1000),
+  maxTotalBytes: readPositiveIntEnv('ARCHIVE_MAX_TOTAL_BYTES', 200 * 1024 * 1024),
+  maxRatio: readPositiveIntEnv('ARCHIVE_MAX_RATIO', 100),
+  maxDepth: readPositiveIntEnv('ARCHIVE_MAX_DEPTH', 3),
+});
+
+// Contador compartido por todos los niveles de una misma descompresión
+interface DecompressionBudget {
+  limits: ArchiveLimits;
+  entries: number;
+  totalBytes: number;
+  onPasswordUsed?: (password: string) => void; // Se llama con la contraseña que abrió cada archivo protegido
+}
 
-  for (const pwd of allPasswordsToTry) {
+/**
+ * Rechaza las rutas absolutas o que salen del directorio del archivo (path traversal).
+ */
+const checkEntryPath = (entryPath: string) => {
+  const normalized = path.posix.normalize(entryPath.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new ArchiveLimitError(`Ruta insegura dentro del archivo comprimido: ${entryPath}`, 400);
+  }
+};
+
+/**
+ * Registra una entrada en el presupuesto y comprueba los límites de número de archivos y tamaño total.
+ */
+const registerEntry = (budget: DecompressionBudget, entryPath: string, size: number) => {
+  checkEntryPath(entryPath);
+  budget.entries++;
+  budget.totalBytes += size;
+  if (budget.entries > budget.limits.maxEntries) {
+    throw new ArchiveLimitError(`El archivo comprimido contiene más de ${budget.limits.maxEntries} archivos.`);
+  }
+  if (budget.totalBytes > budget.limits.maxTotalBytes) {
+    throw new ArchiveLimitError(`El contenido descomprimido supera el máximo de ${budget.limits.maxTotalBytes} bytes.`);
+  }
+};
+
+/**
+ * Comprueba la relación de compresión de una entrada o de un archivo completo.
+ */
+const checkRatio = (budget: DecompressionBudget, label: string, uncompressedSize: number, compressedSize: number) => {
+  if (uncompressedSize < RATIO_CHECK_MIN_BYTES || compressedSize <= 0) return;
+  if (uncompressedSize / compressedSize > budget.limits.maxRatio) {
+    throw new ArchiveLimitError(`Relación de compresión sospechosa en ${label} (más de ${budget.limits.maxRatio}:1).`);
+  }
+};
+
+/**
+ * Lee un stream en memoria sin superar maxBytes; si se supera, se corta la lectura.
+ */
+const readStreamWithLimit = (stream: Readable, maxBytes: number, label: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        reject(new ArchiveLimitError(`El contenido descomprimido de ${label} supera el máximo permitido.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+
+/**
+ * Descomprime un ZIP probando las contraseñas en orden.
+ * Los tamaños declarados se comprueban antes de leer y los reales mientras se lee.
+ */
+const decompressZip = async (source: ArchiveSource, passwords: string[], budget: DecompressionBudget): Promise<DecompressedFile[]> => {
+  let decompressedFiles: DecompressedFile[] = [];
+  let success = false;
+
+  for (const pwd of passwords) {
+    // Un intento fallido no debe consumir presupuesto
+    const budgetBefore = { entries: budget.entries, totalBytes: budget.totalBytes };
     try {
-      // unzipper.Open.buffer() es la forma de abrir un ZIP desde un buffer
+      // Reiniciamos la lista para no mezclar archivos de un intento fallido a medias
+      decompressedFiles = [];
+
+      // unzipper.Open.buffer() / Open.file() abren el ZIP desde memoria o desde disco (sin cargarlo entero)
       // La opción 'password' NO se pasa aquí.
-      const directory = await unzipper.Open.buffer(buffer);
+      const directory = typeof source === 'string' ? await unzipper.Open.file(source) : await unzipper.Open.buffer(source);
 
       // Filtrar solo archivos (no directorios) y leer sus contenidos
       // CAMBIO AQUÍ: Usamos file.type === 'Directory' en lugar de file.dir
       const files = directory.files.filter(file => file.type !== 'Directory'); 
 
+      // Comprobación previa con los tamaños declarados en el directorio central
+      const declaredTotal = files.reduce((total, file) => total + file.uncompressedSize, 0);
+      if (budget.entries + files.length > budget.limits.maxEntries) {
+        throw new ArchiveLimitError(`El archivo comprimido contiene más de ${budget.limits.maxEntries} archivos.`);
+      }
+      if (budget.totalBytes + declaredTotal > budget.limits.maxTotalBytes) {
+        throw new ArchiveLimitError(`El contenido descomprimido supera el máximo de ${budget.limits.maxTotalBytes} bytes.`);
+      }
+
       for (const file of files) {
-        // La contraseña se pasa al método buffer() de cada entrada de archivo
-        const fileData = await file.buffer(pwd);
+        checkEntryPath(file.path);
+        // La contraseña se pasa al método stream() de cada entrada de archivo;
+        // el tamaño declarado puede ser falso, así que se limita la lectura real
+        const remainingBytes = budget.limits.maxTotalBytes - budget.totalBytes;
+        const fileData = await readStreamWithLimit(file.stream(pwd), remainingBytes, file.path);
+        checkRatio(budget, file.path, fileData.length, file.compressedSize);
+        registerEntry(budget, file.path, fileData.length);
         decompressedFiles.push({
           path: file.path,
           data: fileData,
         });
       }
       success = true;
-      console.log(`Archivo descomprimido exitosamente con contraseña: ${pwd === '' ? 'ninguna' : pwd}`);
+      if (pwd !== '') budget.onPasswordUsed?.(pwd);
+      console.log(`Archivo descomprimido exitosamente ${pwd === '' ? 'sin contraseña' : 'con contraseña'}.`);
       break; // Salir del bucle si la descompresión fue exitosa
     } catch (error: any) {
-      console.warn(`Intento de descompresión con contraseña "${pwd === '' ? 'ninguna' : pwd}" falló: ${error.message}`);
+      // Superar un límite no depende de la contraseña: se aborta en lugar de seguir probando
+      if (error instanceof ArchiveLimitError) {
+        throw error;
+      }
+      budget.entries = budgetBefore.entries;
+      budget.totalBytes = budgetBefore.totalBytes;
+      // La contraseña no se escribe en el log
+      console.warn(`Intento de descompresión ${pwd === '' ? 'sin contraseña' : `con la contraseña ${passwords.indexOf(pwd)}`} falló: ${error.message}`);
       // Si el error es por contraseña incorrecta, el bucle continuará.
       // Si es otro tipo de error (ej. archivo corrupto), podríamos querer lanzarlo.
       // Por ahora, solo lo registramos y seguimos intentando.
@@ -67,46 +212,288 @@ export const decompressArchive = async (
 };
 
 /**
- * Sube un archivo (Buffer) a Supabase Storage.
- * @param supabase Cliente de Supabase.
- * @param bucketName Nombre del bucket de Supabase Storage.
- * @param filePath Ruta completa del archivo dentro del bucket (ej. 'lab_files/my_file.lab').
- * @param fileBuffer El contenido del archivo como Buffer.
- * @param contentType El tipo de contenido del archivo (ej. 'text/plain', 'application/octet-stream').
- * @returns La URL pública del archivo subido.
+ * Lee las entradas de un archivo TAR (sin comprimir). El formato TAR no admite contraseñas.
+ * El tamaño de cada entrada se registra a partir de su cabecera, antes de leerla.
  */
-export const uploadFileToSupabaseStorage = async (
-  supabase: SupabaseClient,
-  bucketName: string,
-  filePath: string,
-  fileBuffer: Buffer,
-  contentType: string = 'application/octet-stream'
-): Promise<string> => {
-  try {
-    const { data, error } = await supabase.storage
-      .from(bucketName)
-      .upload(filePath, fileBuffer, {
-        contentType: contentType,
-        upsert: true, // Sobrescribe si el archivo ya existe
+const extractTar = (source: ArchiveSource, budget: DecompressionBudget): Promise<DecompressedFile[]> =>
+  new Promise((resolve, reject) => {
+    const files: DecompressedFile[] = [];
+    const extract = tar.extract();
+
+    extract.on('entry', (header, stream, next) => {
+      // Solo archivos regulares; los directorios y enlaces se ignoran
+      if (header.type !== 'file') {
+        stream.on('end', () => next());
+        stream.resume();
+        return;
+      }
+
+      try {
+        registerEntry(budget, header.name, header.size || 0);
+      } catch (error) {
+        extract.destroy();
+        reject(error);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: unknown) => chunks.push(chunk as Buffer));
+      stream.on('end', () => {
+        files.push({ path: header.name, data: Buffer.concat(chunks) });
+        next();
       });
+      stream.resume();
+    });
+    extract.on('finish', () => resolve(files));
+    extract.on('error', (error: Error) => reject(new Error(`Archivo TAR corrupto: ${error.message}`)));
+
+    if (typeof source === 'string') {
+      const input = createReadStream(source);
+      input.on('error', (error: Error) => extract.destroy(error));
+      input.pipe(extract);
+    } else {
+      extract.end(source);
+    }
+  });
 
-    if (error) {
-      console.error('Error al subir archivo a Supabase Storage:', error);
-      throw new Error(`Error al subir archivo a Storage: ${error.message}`);
+/**
+ * Descomprime un archivo GZIP. Si contiene un TAR (.tar.gz / .tgz), se extraen sus entradas;
+ * si no, el resultado es un único archivo con el nombre original sin la extensión .gz.
+ */
+const decompressGzip = async (source: ArchiveSource, fileExtension: string, fileName: string, budget: DecompressionBudget): Promise<DecompressedFile[]> => {
+  let data: Buffer;
+  const remainingBytes = budget.limits.maxTotalBytes - budget.totalBytes;
+  try {
+    if (typeof source === 'string') {
+      // Desde disco, por streaming: la lectura se corta al superar el máximo
+      const input = createReadStream(source);
+      const gunzipStream = createGunzip();
+      input.on('error', (error: Error) => gunzipStream.destroy(error));
+      data = await readStreamWithLimit(input.pipe(gunzipStream), remainingBytes, fileName);
+    } else {
+      // maxOutputLength corta la descompresión antes de agotar la memoria
+      data = await gunzip(source, { maxOutputLength: remainingBytes + 1 });
+    }
+  } catch (error: any) {
+    if (error instanceof ArchiveLimitError) {
+      throw error;
     }
+    if (error.code === 'ERR_BUFFER_TOO_LARGE' || error instanceof RangeError) {
+      throw new ArchiveLimitError(`El contenido descomprimido supera el máximo de ${budget.limits.maxTotalBytes} bytes.`);
+    }
+    throw new Error(`No se pudo descomprimir el archivo GZIP: ${error.message}`);
+  }
+  checkRatio(budget, fileName, data.length, await getSourceSize(source));
+
+  if (fileExtension === '.tar.gz' || fileExtension === '.tgz') {
+    return extractTar(data, budget);
+  }
 
-    // Obtener la URL pública del archivo
-    const { data: publicUrlData } = supabase.storage
-      .from(bucketName)
-      .getPublicUrl(filePath);
+  const entryPath = path.basename(fileName).replace(/\.gz$/i, '');
+  registerEntry(budget, entryPath, data.length);
+  return [{ path: entryPath, data }];
+};
+
+/**
+ * Ejecuta un comando de 7-Zip y devuelve su código de salida. Con la lista de archivos cifrada (-mhe),
+ * una contraseña incorrecta hace que el módulo lance una excepción en lugar de devolver un código:
+ * se trata como un fallo más (código 2, error fatal de 7-Zip).
+ */
+const runSevenZip = (sevenZip: Awaited<ReturnType<typeof SevenZip>>, args: string[], errorMessages: string[]): number => {
+  try {
+    return sevenZip.callMain(args) as unknown as number;
+  } catch (error: any) {
+    errorMessages.push(error instanceof Error ? error.message : 'Wrong password?');
+    return 2;
+  }
+};
 
-    if (!publicUrlData || !publicUrlData.publicUrl) {
-      throw new Error('No se pudo obtener la URL pública del archivo subido.');
+/**
+ * Descomprime un archivo 7z con 7-Zip compilado a WASM, probando las contraseñas en orden.
+ * Cada intento usa una instancia nueva del módulo: su sistema de archivos es en memoria.
+ * Antes de extraer se listan las entradas para comprobar los límites con los tamaños declarados.
+ */
+const decompress7z = async (source: ArchiveSource, passwords: string[], budget: DecompressionBudget): Promise<DecompressedFile[]> => {
+  const sourceSize = await getSourceSize(source);
+
+  for (const pwd of passwords) {
+    // Un intento fallido no debe consumir presupuesto
+    const budgetBefore = { entries: budget.entries, totalBytes: budget.totalBytes };
+    const errorMessages: string[] = [];
+    const listing: string[] = [];
+    const sevenZip = await SevenZip({
+      stdin: () => null as unknown as number, // Sin entrada: 7-Zip no debe quedarse esperando una contraseña
+      print: (message: string) => listing.push(message),
+      printErr: (message: string) => errorMessages.push(message),
+    });
+
+    // Un archivo en disco se monta (NODEFS) en lugar de copiarse a la memoria del módulo
+    let archivePath = '/archive.7z';
+    if (typeof source === 'string') {
+      sevenZip.FS.mkdir('/in');
+      sevenZip.FS.mount(sevenZip.NODEFS, { root: path.dirname(path.resolve(source)) }, '/in');
+      archivePath = `/in/${path.basename(source)}`;
+    } else {
+      sevenZip.FS.writeFile(archivePath, source);
+    }
+    sevenZip.FS.mkdir('/out');
+
+    // -p siempre presente para que 7-Zip no pida la contraseña de forma interactiva
+    const listExitCode = runSevenZip(sevenZip, ['l', '-slt', `-p${pwd}`, archivePath], errorMessages);
+
+    if (listExitCode !== 0) {
+      console.warn(`Intento de descompresión 7z ${pwd === '' ? 'sin contraseña' : `con la contraseña ${passwords.indexOf(pwd)}`} falló: ${errorMessages.filter(m => m.trim() !== '').join(' ')}`);
+      continue;
     }
 
-    return publicUrlData.publicUrl;
-  } catch (err: any) {
-    console.error('Excepción en uploadFileToSupabaseStorage:', err);
-    throw err;
+    // El listado técnico (-slt) tiene una cabecera del archivo y, tras '----------',
+    // un bloque "Clave = valor" por entrada separado por líneas vacías
+    const entriesListing = listing.slice(listing.indexOf('----------') + 1);
+    let entryPath: string | null = null;
+    let entrySize = 0;
+    let declaredTotal = 0;
+    const flushEntry = (attributes: string) => {
+      if (entryPath !== null && !attributes.startsWith('D')) {
+        registerEntry(budget, entryPath, entrySize);
+        declaredTotal += entrySize;
+      }
+      entryPath = null;
+      entrySize = 0;
+    };
+    for (const line of entriesListing) {
+      const [key, ...valueParts] = line.split(' = ');
+      const value = valueParts.join(' = ');
+      if (key === 'Path') entryPath = value;
+      if (key === 'Size') entrySize = parseInt(value, 10) || 0;
+      if (key === 'Attributes') flushEntry(value);
+    }
+    checkRatio(budget, 'el archivo 7z', declaredTotal, sourceSize);
+
+    const exitCode = runSevenZip(sevenZip, ['x', archivePath, '-o/out', `-p${pwd}`, '-y'], errorMessages);
+    if (exitCode !== 0) {
+      const errorText = errorMessages.filter(m => m.trim() !== '').join(' ');
+      // Si solo el contenido está cifrado (no la lista de archivos), el listado funciona con cualquier
+      // contraseña y la incorrecta solo se detecta al extraer: se sigue con la siguiente
+      if (/wrong password/i.test(errorText)) {
+        budget.entries = budgetBefore.entries;
+        budget.totalBytes = budgetBefore.totalBytes;
+        console.warn(`Intento de descompresión 7z ${pwd === '' ? 'sin contraseña' : `con la contraseña ${passwords.indexOf(pwd)}`} falló: ${errorText}`);
+        continue;
+      }
+      throw new Error(`No se pudo descomprimir el archivo 7z: ${errorText}`);
+    }
+
+    // Recorrer el directorio de salida y leer todos los archivos
+    const files: DecompressedFile[] = [];
+    const walk = (directory: string, relativePath: string) => {
+      for (const entry of sevenZip.FS.readdir(directory)) {
+        if (entry === '.' || entry === '..') continue;
+        const fullPath = `${directory}/${entry}`;
+        const entryPath = relativePath ? `${relativePath}/${entry}` : entry;
+        if (sevenZip.FS.isDir(sevenZip.FS.stat(fullPath).mode)) {
+          walk(fullPath, entryPath);
+        } else {
+          files.push({ path: entryPath, data: Buffer.from(sevenZip.FS.readFile(fullPath)) });
+        }
+      }
+    };
+    walk('/out', '');
+
+    if (pwd !== '') budget.onPasswordUsed?.(pwd);
+    console.log(`Archivo 7z descomprimido exitosamente ${pwd === '' ? 'sin contraseña' : 'con contraseña'}.`);
+    return files;
   }
-};
\ No newline at end of file
+
+  throw new Error('No se pudo descomprimir el archivo. Contraseña incorrecta o archivo corrupto.');
+};
+
+/**
+ * Descomprime un nivel y, recursivamente, los archivos comprimidos que contenga.
+ * Las rutas de los archivos anidados se prefijan con la ruta del archivo que los contiene.
+ */
+const decompressLevel = async (
+  source: ArchiveSource,
+  fileExtension: string,
+  passwords: string[],
+  fileName: string,
+  depth: number,
+  budget: DecompressionBudget
+): Promise<DecompressedFile[]> => {
+  let files: DecompressedFile[];
+
+  switch (fileExtension) {
+    case '.zip':
+      files = await decompressZip(source, passwords, budget);
+      break;
+    case '.7z':
+      files = await decompress7z(source, passwords, budget);
+      break;
+    case '.tar':
+      files = await extractTar(source, budget);
+      break;
+    case '.tar.gz':
+    case '.tgz':
+    case '.gz':
+      files = await decompressGzip(source, fileExtension, fileName, budget);
+      break;
+    default:
+      if (PLAIN_RESULT_EXTENSIONS.includes(fileExtension)) {
+        // Archivo sin comprimir: se procesa como si fuera la única entrada de un archivo comprimido
+        const data = typeof source === 'string' ? await fs.readFile(source) : source;
+        registerEntry(budget, path.basename(fileName), data.length);
+        return [{ path: path.basename(fileName), data }];
+      }
+      throw new Error(`Formato de archivo no soportado. Formatos aceptados: ${[...SUPPORTED_ARCHIVE_EXTENSIONS, ...PLAIN_RESULT_EXTENSIONS].join(', ')}.`);
+  }
+
+  const result: DecompressedFile[] = [];
+  for (const file of files) {
+    const nestedExtension = getArchiveExtension(file.path);
+    if (!SUPPORTED_ARCHIVE_EXTENSIONS.includes(nestedExtension)) {
+      result.push(file);
+      continue;
+    }
+
+    if (depth + 1 > budget.limits.maxDepth) {
+      throw new ArchiveLimitError(`Demasiados niveles de archivos comprimidos anidados (máximo ${budget.limits.maxDepth}).`, 422);
+    }
+
+    const nestedFiles = await decompressLevel(file.data, nestedExtension, passwords, path.basename(file.path), depth + 1, budget);
+    result.push(...nestedFiles.map(nested => ({ path: `${file.path}/${nested.path}`, data: nested.data })));
+  }
+
+  return result;
+};
+
+/**
+ * Intenta descomprimir un archivo comprimido (en memoria o en disco) con o sin contraseña.
+ * Soporta .zip y .7z (con contraseña), .tar, .tar.gz/.tgz y .gz (sin contraseña), y
+ * archivos de resultados sin comprimir (.lab, .hl7, .oru), que se devuelven tal cual.
+ * Los archivos comprimidos anidados se descomprimen recursivamente hasta limits.maxDepth.
+ * @param source El archivo subido: su contenido (Buffer) o su ruta en disco, que se lee por streaming.
+ * @param fileExtension La extensión original del archivo (ej. '.zip'); ver getArchiveExtension.
+ * @param passwords Un array de contraseñas a probar (solo para los formatos que las admiten).
+ * @param fileName Nombre original del archivo, usado para los archivos sin comprimir y los .gz.
+ * @param limits Límites de seguridad; por defecto los configurados en el entorno.
+ * @param onPasswordUsed Se llama con la contraseña que abrió cada archivo protegido (incluidos los anidados).
+ * @returns Un array de objetos { path: string, data: Buffer } para cada archivo descomprimido.
+ * @throws ArchiveLimitError si se supera un límite o hay rutas inseguras.
+ * @throws Error si la descompresión falla o el formato no es soportado.
+ */
+export const decompressArchive = async (
+  source: ArchiveSource,
+  fileExtension: string,
+  passwords: string[] = [],
+  fileName: string = `archivo${fileExtension}`,
+  limits: ArchiveLimits = getArchiveLimits(),
+  onPasswordUsed?: (password: string) => void
+): Promise<DecompressedFile[]> => {
+  console.log(`Attempting to decompress file with extension: ${fileExtension}`);
+
+  // Aseguramos que la lista de contraseñas incluya una cadena vacía para el intento sin contraseña
+  // y que las contraseñas no estén duplicadas.
+  const allPasswordsToTry = Array.from(new Set(['', ...passwords]));
+
+  const budget: DecompressionBudget = { limits, entries: 0, totalBytes: 0, onPasswordUsed };
+  return decompressLevel(source, fileExtension, allPasswordsToTry, fileName, 0, budget);
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLabFile, detectEncoding, peekLabIdentification } from './encodingDetector';
+
+const A1 = 'A1\\P001\\LAB01\\\r\nA2\\P001\\HÉLÈNE\\Zoë\\F\\15031980\\\\\r\n';
+
+const utf16be = (text: string) => Buffer.from(text, 'utf16le').swap16();
+
+describe('detectEncoding', () => {
+  it.each([
+    ['UTF-8', Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(A1, 'utf8')]), 'utf-8'],
+    ['UTF-16LE', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(A1, 'utf16le')]), 'utf-16le'],
+    ['UTF-16BE', Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be(A1)]), 'utf-16be'],
+  ] as const)('detects the %s BOM', (_, data, encoding) => {
+    expect(detectEncoding(data)).toEqual({ encoding, source: 'bom' });
+  });
+
+  it('takes valid UTF-8 (and plain ASCII) as UTF-8', () => {
+    expect(detectEncoding(Buffer.from(A1, 'utf8'))).toEqual({ encoding: 'utf-8', source: 'heuristic' });
+    expect(detectEncoding(Buffer.from('A1\\P001\\LAB01\\', 'ascii'))).toEqual({ encoding: 'utf-8', source: 'heuristic' });
+  });
+
+  it('falls back to Windows-1252 when the content is not valid UTF-8', () => {
+    expect(detectEncoding(Buffer.from(A1, 'latin1'))).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+    // Secuencia UTF-8 cortada al final del archivo
+    expect(detectEncoding(Buffer.from([0x41, 0x31, 0xc3]))).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+  });
+});
+
+describe('decodeLabFile', () => {
+  it('decodes Windows-1252, including the 0x80-0x9F characters', () => {
+    const data = Buffer.from([...Buffer.from('Prix 5', 'latin1'), 0x80, 0x20, 0x93, 0x4f, 0x4b, 0x94, 0x20, ...Buffer.from('é', 'latin1')]);
+
+    expect(decodeLabFile(data)).toEqual({ content: 'Prix 5€ “OK” é', encoding: 'windows-1252', source: 'heuristic' });
+  });
+
+  it('removes the BOM from the content', () => {
+    const decoded = decodeLabFile(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(A1, 'utf16le')]));
+    expect(decoded.content).toBe(A1);
+  });
+
+  it('uses the lab override instead of the heuristic', () => {
+    // Latin-1 "Ã©" es también UTF-8 válido ("é"): solo la configuración del laboratorio lo desambigua
+    const data = Buffer.from('HÃ©LÃ¨NE', 'latin1');
+
+    expect(decodeLabFile(data).content).toBe('HéLèNE');
+    expect(decodeLabFile(data, 'windows-1252')).toEqual({ content: 'HÃ©LÃ¨NE', encoding: 'windows-1252', source: 'override' });
+  });
+
+  it('gives the BOM priority over the lab override', () => {
+    const data = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(A1, 'utf8')]);
+
+    expect(decodeLabFile(data, 'windows-1252')).toEqual({ content: A1, encoding: 'utf-8', source: 'bom' });
+  });
+});
+
+describe('peekLabIdentification', () => {
+  it('reads the lab of the first A1 in any encoding', () => {
+    expect(peekLabIdentification(Buffer.from(A1, 'latin1'))).toBe('LAB01');
+    expect(peekLabIdentification(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(A1, 'utf8')]))).toBe('LAB01');
+    expect(peekLabIdentification(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(A1, 'utf16le')]))).toBe('LAB01');
+    expect(peekLabIdentification(Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be(A1)]))).toBe('LAB01');
+  });
+
+  it('returns null without an A1', () => {
+    expect(peekLabIdentification(Buffer.from('MSH|^~\\&|LAB01\r'))).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { TextDecoder } from 'util';
+
+// Codificaciones que sabemos leer en los archivos .lab
+export type LabFileEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const SUPPORTED_ENCODINGS: LabFileEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+
+// Cómo se decidió la codificación: BOM, heurística o configuración del laboratorio
+export type EncodingSource = 'bom' | 'heuristic' | 'override';
+
+export interface DecodedLabFile {
+  content: string;
+  encoding: LabFileEncoding;
+  source: EncodingSource;
+}
+
+// Caracteres de Windows-1252 en el rango 0x80-0x9F (donde difiere de Latin-1).
+// Las posiciones sin asignar (0x81, 0x8D, 0x8F, 0x90, 0x9D) se dejan como en Latin-1.
+const WINDOWS_1252_HIGH: { [byte: number]: string } = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž',
+  0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—',
+  0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+/**
+ * Decodifica un buffer como Windows-1252.
+ * No usamos TextDecoder porque, según el build de ICU de Node, lo trata como Latin-1.
+ */
+const decodeWindows1252 = (data: Buffer): string => {
+  let result = '';
+  for (const byte of data) {
+    result += WINDOWS_1252_HIGH[byte] ?? String.fromCharCode(byte);
+  }
+  return result;
+};
+
+const decodeAs = (data: Buffer, encoding: LabFileEncoding): string => {
+  if (encoding === 'windows-1252') {
+    return decodeWindows1252(data);
+  }
+  // TextDecoder elimina el BOM inicial por defecto
+  return new TextDecoder(encoding).decode(data);
+};
+
+/**
+ * Detecta la codificación de un archivo .lab.
+ * 1. BOM de UTF-8 / UTF-16.
+ * 2. Si el contenido es UTF-8 válido, se asume UTF-8 (el ASCII puro también lo es).
+ * 3. Si no, se asume Windows-1252, habitual en los sistemas de laboratorio belgas.
+ * @param data Contenido binario del archivo.
+ * @returns La codificación detectada y el origen de la decisión.
+ */
+export const detectEncoding = (data: Buffer): { encoding: LabFileEncoding; source: EncodingSource } => {
+  if (data.length >= 3 && data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return { encoding: 'utf-8', source: 'bom' };
+  }
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
+    return { encoding: 'utf-16le', source: 'bom' };
+  }
+  if (data.length >= 2 && data[0] === 0xfe && data[1] === 0xff) {
+    return { encoding: 'utf-16be', source: 'bom' };
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return { encoding: 'utf-8', source: 'heuristic' };
+  } catch {
+    return { encoding: 'windows-1252', source: 'heuristic' };
+  }
+};
+
+/**
+ * Lee el identificador del laboratorio (campo 2 del primer A1) sin conocer aún la codificación.
+ * El A1 solo contiene caracteres ASCII, así que una lectura Latin-1 es suficiente.
+ * @param data Contenido binario del archivo.
+ * @returns El lab_identification del primer A1, o null si no se encuentra.
+ */
+export const peekLabIdentification = (data: Buffer): string | null => {
+  // En UTF-16 cada carácter ASCII lleva un byte nulo; lo quitamos para poder leer el A1
+  const text = data.toString('latin1').replace(/\u0000/g, '');
+  const a1Line = text.split(/\r?\n/).find(line => line.replace(/^(ï»¿|ÿþ|þÿ)/, '').startsWith('A1'));
+  if (!a1Line) return null;
+  const labIdentification = a1Line.split('\\')[2];
+  return labIdentification ? labIdentification.trim() : null;
+};
+
+/**
+ * Decodifica un archivo .lab a texto.
+ * Un BOM siempre tiene prioridad; si no lo hay, se usa la codificación configurada para el
+ * laboratorio (override) y, en su defecto, la heurística de detectEncoding.
+ * @param data Contenido binario del archivo.
+ * @param override Codificación configurada para el laboratorio emisor, si existe.
+ * @returns El contenido decodificado, la codificación utilizada y el origen de la decisión.
+ */
+export const decodeLabFile = (data: Buffer, override?: LabFileEncoding | null): DecodedLabFile => {
+  const detected = detectEncoding(data);
+  const useOverride = override && detected.source !== 'bom';
+  const encoding = useOverride ? override : detected.encoding;
+  const source: EncodingSource = useOverride ? 'override' : detected.source;
+
+  return { content: decodeAs(data, encoding), encoding, source };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getExternalIdentifierPattern, getFhirPatientId } from './fhirMapper';
+
+// Evaluates a LIKE pattern the way Postgres does ('_' any character, '%' any text)
+const matchesLike = (value: string, pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/_/g, '.').replace(/%/g, '.*')}$`).test(value);
+
+describe('getExternalIdentifierPattern', () => {
+  it.each([
+    'CAHWF0325001',
+    'NISS 80.03.15-123.45',
+    'ext/42#b',
+    'X'.repeat(80),
+  ])('finds the external identifier %s from its Patient id', externalIdentifier => {
+    const patientId = getFhirPatientId({ administrative_id: 'a1', external_identifier: externalIdentifier });
+    const pattern = getExternalIdentifierPattern(patientId);
+
+    expect(pattern).not.toBeNull();
+    expect(matchesLike(externalIdentifier, pattern!)).toBe(true);
+  });
+
+  it('rejects ids that no external identifier maps to', () => {
+    expect(getExternalIdentifierPattern('with space')).toBeNull();
+    expect(getExternalIdentifierPattern('X'.repeat(65))).toBeNull();
+  });
+});
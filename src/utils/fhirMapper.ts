@@ -0,0 +1,215 @@
+// Conversión de las filas administrative/result a recursos FHIR R4:
+// Patient (A2/A3), ServiceRequest (A4), DiagnosticReport y una Observation por resultado.
+
+import { LabAdministrativeRecord, LabResultRecord } from './labFileSerializer';
+import { AbnormalFlag, ResultComparator } from './resultValueParser';
+
+// Fila de la tabla administrative: los campos del archivo más los propios de la base de datos
+export interface FhirAdministrativeRow extends LabAdministrativeRecord {
+  administrative_id: string;
+  created_at?: string | null;
+}
+
+// Fila de la tabla result, con los valores estructurados calculados al importar
+export interface FhirResultRow extends LabResultRecord {
+  result_id: string;
+  administrative_id: string;
+  result_numeric?: number | null;
+  result_comparator?: ResultComparator | null;
+  reference_low?: number | null;
+  reference_high?: number | null;
+  abnormal_flag?: AbnormalFlag | null;
+}
+
+// Representación mínima de un recurso FHIR; el contenido depende de resourceType
+export interface FhirResource {
+  resourceType: string;
+  id: string;
+  [key: string]: any;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection' | 'searchset';
+  timestamp: string;
+  total?: number;
+  entry: { fullUrl: string; resource: FhirResource; search?: { mode: 'match' | 'include' } }[];
+}
+
+// Sistemas de identificadores propios del laboratorio
+const EXTERNAL_IDENTIFIER_SYSTEM = 'urn:clinic-express:external-identifier';
+const PROTOCOL_IDENTIFIER_SYSTEM = 'urn:clinic-express:ident-protocol';
+const ANALYTICAL_CODE_SYSTEM = 'urn:clinic-express:analytical-code';
+
+// abnormal_flag -> código de v3-ObservationInterpretation
+const INTERPRETATION_CODES: { [flag in AbnormalFlag]: { code: string; display: string } } = {
+  normal: { code: 'N', display: 'Normal' },
+  low: { code: 'L', display: 'Low' },
+  high: { code: 'H', display: 'High' },
+  critical: { code: 'AA', display: 'Critical abnormal' },
+};
+
+const GENDERS: { [sex: string]: string } = {
+  M: 'male',
+  F: 'female',
+  X: 'other',
+};
+
+// Longitud máxima de un id FHIR
+const FHIR_ID_MAX_LENGTH = 64;
+
+/**
+ * Devuelve el id FHIR del paciente de un registro administrativo.
+ * Se usa el identificador externo del A2 para que los protocolos del mismo paciente
+ * compartan Patient; si falta, se deriva del administrative_id.
+ * Los caracteres no permitidos en un id FHIR se cambian por '-', así que el id no siempre
+ * es el identificador externo: para buscar por id se usa getExternalIdentifierPattern.
+ */
+export const getFhirPatientId = (administrative: Pick<FhirAdministrativeRow, 'administrative_id' | 'external_identifier'>): string =>
+  administrative.external_identifier
+    ? String(administrative.external_identifier).replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, FHIR_ID_MAX_LENGTH)
+    : `adm-${administrative.administrative_id}`;
+
+/**
+ * Patrón LIKE de los identificadores externos que pueden dar un id de Patient (inverso de getFhirPatientId).
+ * Cada '-' puede ser cualquier carácter sustituido y un id de longitud máxima puede estar truncado.
+ * Los candidatos se confirman comparando su getFhirPatientId con el id buscado.
+ * @param patientId Id de Patient (sin el prefijo 'adm-').
+ * @returns El patrón, o null si el id no puede venir de un identificador externo.
+ */
+export const getExternalIdentifierPattern = (patientId: string): string | null => {
+  if (!/^[A-Za-z0-9\-.]+$/.test(patientId) || patientId.length > FHIR_ID_MAX_LENGTH) return null;
+  return patientId.replace(/-/g, '_') + (patientId.length === FHIR_ID_MAX_LENGTH ? '%' : '');
+};
+
+// Quita las propiedades sin valor para no emitir campos vacíos en el JSON
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))) as T;
+
+const toPatient = (administrative: FhirAdministrativeRow): FhirResource => compact({
+  resourceType: 'Patient',
+  id: getFhirPatientId(administrative),
+  identifier: administrative.external_identifier
+    ? [{ system: EXTERNAL_IDENTIFIER_SYSTEM, value: administrative.external_identifier }]
+    : [],
+  name: [compact({ family: administrative.surname, given: administrative.firstname ? [administrative.firstname] : [] })],
+  gender: GENDERS[(administrative.sex || '').trim().toUpperCase()] || 'unknown',
+  birthDate: administrative.date_of_birth,
+  address: administrative.street_number || administrative.postal_code || administrative.city
+    ? [compact({ line: administrative.street_number ? [administrative.street_number] : [], postalCode: administrative.postal_code, city: administrative.city })]
+    : [],
+});
+
+const toServiceRequest = (administrative: FhirAdministrativeRow, patientId: string): FhirResource => compact({
+  resourceType: 'ServiceRequest',
+  id: `sr-${administrative.administrative_id}`,
+  identifier: [{ system: PROTOCOL_IDENTIFIER_SYSTEM, value: administrative.ident_protocol }],
+  status: 'completed',
+  intent: 'order',
+  code: administrative.protocol_type ? { text: administrative.protocol_type } : null,
+  subject: { reference: `Patient/${patientId}` },
+  authoredOn: administrative.date_request,
+  requester: administrative.prescribing_doctor ? { display: administrative.prescribing_doctor } : null,
+});
+
+const toObservation = (result: FhirResultRow, patientId: string): FhirResource => {
+  const hasRange = result.reference_low !== null && result.reference_low !== undefined
+    || result.reference_high !== null && result.reference_high !== undefined;
+  const interpretation = result.abnormal_flag ? INTERPRETATION_CODES[result.abnormal_flag] : null;
+
+  return compact({
+    resourceType: 'Observation',
+    id: `obs-${result.result_id}`,
+    status: 'final',
+    category: [{
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'laboratory', display: 'Laboratory' }],
+    }],
+    code: {
+      coding: [compact({ system: ANALYTICAL_CODE_SYSTEM, code: result.analytical_code, display: result.analytical_name })],
+      text: result.analytical_name || result.analytical_code,
+    },
+    subject: { reference: `Patient/${patientId}` },
+    // Valor numérico si se pudo interpretar; si no, el texto original
+    valueQuantity: result.result_numeric !== null && result.result_numeric !== undefined
+      ? compact({ value: result.result_numeric, comparator: result.result_comparator, unit: result.unit })
+      : null,
+    valueString: result.result_numeric === null || result.result_numeric === undefined ? result.result : null,
+    interpretation: interpretation
+      ? [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation', ...interpretation }] }]
+      : [],
+    referenceRange: hasRange || result.reference_value
+      ? [compact({
+        low: result.reference_low !== null && result.reference_low !== undefined ? compact({ value: result.reference_low, unit: result.unit }) : null,
+        high: result.reference_high !== null && result.reference_high !== undefined ? compact({ value: result.reference_high, unit: result.unit }) : null,
+        text: result.reference_value,
+      })]
+      : [],
+    note: result.result_text ? [{ text: result.result_text }] : [],
+  });
+};
+
+const toDiagnosticReport = (administrative: FhirAdministrativeRow, patientId: string, observations: FhirResource[]): FhirResource => compact({
+  resourceType: 'DiagnosticReport',
+  id: `dr-${administrative.administrative_id}`,
+  identifier: [{ system: PROTOCOL_IDENTIFIER_SYSTEM, value: administrative.ident_protocol }],
+  basedOn: [{ reference: `ServiceRequest/sr-${administrative.administrative_id}` }],
+  status: 'final',
+  category: [{
+    coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'LAB', display: 'Laboratory' }],
+  }],
+  code: { coding: [{ system: 'http://loinc.org', code: '11502-2', display: 'Laboratory report' }] },
+  subject: { reference: `Patient/${patientId}` },
+  effectiveDateTime: administrative.date_request,
+  issued: administrative.created_at,
+  performer: administrative.lab_identification ? [{ display: administrative.lab_identification }] : [],
+  result: observations.map(observation => ({ reference: `Observation/${observation.id}` })),
+  conclusion: administrative.comment,
+});
+
+/**
+ * Convierte un registro administrativo y sus resultados en recursos FHIR R4.
+ * @param administrative Fila de la tabla administrative.
+ * @param results Filas activas de la tabla result del registro.
+ * @returns El Patient, el ServiceRequest, el DiagnosticReport y sus Observations.
+ */
+export const toFhirResources = (administrative: FhirAdministrativeRow, results: FhirResultRow[]) => {
+  const patient = toPatient(administrative);
+  const serviceRequest = toServiceRequest(administrative, patient.id);
+  const observations = results.map(result => toObservation(result, patient.id));
+  const diagnosticReport = toDiagnosticReport(administrative, patient.id, observations);
+  return { patient, serviceRequest, diagnosticReport, observations };
+};
+
+/**
+ * Construye un Bundle FHIR con los recursos indicados, sin repetir recursos con el mismo id.
+ * @param baseUrl URL base del servidor FHIR (para el fullUrl de cada entrada).
+ * @param type 'collection' para exportaciones, 'searchset' para búsquedas.
+ * @param entries Recursos con el modo de búsqueda opcional (solo para searchset).
+ */
+export const buildFhirBundle = (
+  baseUrl: string,
+  type: FhirBundle['type'],
+  entries: { resource: FhirResource; mode?: 'match' | 'include' }[]
+): FhirBundle => {
+  const seen = new Set<string>();
+  const bundleEntries: FhirBundle['entry'] = [];
+
+  for (const { resource, mode } of entries) {
+    const key = `${resource.resourceType}/${resource.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    bundleEntries.push({
+      fullUrl: `${baseUrl}/${key}`,
+      resource,
+      ...(type === 'searchset' && mode ? { search: { mode } } : {}),
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type,
+    timestamp: new Date().toISOString(),
+    ...(type === 'searchset' ? { total: entries.filter(entry => entry.mode === 'match').length } : {}),
+    entry: bundleEntries,
+  };
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { isHl7Message, parseHl7Date, parseHl7Message } from './hl7Parser';
+
+// Mensaje ORU^R01 mínimo con un resultado de texto cuyo valor es `value`
+const messageWithValue = (value: string) => [
+  'MSH|^~\\&|LAB|LAB01|HIS|CLINIC|20250310101500||ORU^R01|MSG0001|P|2.5',
+  'PID|1||CAHWF0325001||DUPONT^Marie||19800315|F',
+  'OBR|1||P001|PANEL|||20250310',
+  `OBX|1|TX|TXT^Texte||${value}`,
+].join('\r');
+
+// Mensaje con dos protocolos del mismo paciente, comentarios NTE y segmentos ignorados o desconocidos
+const MESSAGE = [
+  'MSH|^~\\&|LAB|LAB01|HIS|CLINIC|20250310101500||ORU^R01|MSG0001|P|2.5',
+  'PID|1||CAHWF0325001^^^LAB||DUPONT^Marie||19800315|F|||Rue Haute 10^^Bruxelles^^1000',
+  'PV1|1|O',
+  'OBR|1|PL01|P001|BIO^Biochimie|||20250310083000|||||||||DR123^Martin^Jean',
+  'NTE|1||Echantillon hémolysé',
+  'OBX|1|NM|GLU^Glucose||128|mg/dL|70-110|H|||F',
+  'NTE|1||A jeun~Prélèvement à 8h',
+  'OBX|2|TX|ECG^ECG||Normal||||||F',
+  'ZZZ|1|local',
+  'OBR|2|PL02||HEM^Hématologie|||20250311',
+  'OBX|1|NM|HB^Hémoglobine||<5|g/dL|12-16||||F',
+].join('\r');
+
+describe('parseHl7Message', () => {
+  it('maps MSH, PID and OBR to one administrative row per protocol', () => {
+    const { blocks } = parseHl7Message(MESSAGE);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].administrative).toEqual({
+      external_identifier: 'CAHWF0325001',
+      surname: 'DUPONT',
+      firstname: 'Marie',
+      date_of_birth_raw: '19800315',
+      date_of_birth: '1980-03-15',
+      sex: 'F',
+      street_number: 'Rue Haute 10',
+      city: 'Bruxelles',
+      postal_code: '1000',
+      ident_protocol: 'P001',
+      lab_identification: 'LAB01',
+      prescribing_doctor: 'DR123 Martin Jean',
+      date_request_raw: '20250310083000',
+      date_request: '2025-03-10',
+      protocol_type: 'BIO',
+      comment: 'Echantillon hémolysé',
+      unparsed_lines: 'ZZZ|1|local',
+    });
+    // Sin filler order number (OBR-3) se usa el placer (OBR-2)
+    expect(blocks[1].administrative).toMatchObject({ ident_protocol: 'PL02', surname: 'DUPONT', date_request: '2025-03-11', prescribing_doctor: null });
+  });
+
+  it('maps OBX to result rows and NTE after an OBX to its free text', () => {
+    const { blocks } = parseHl7Message(MESSAGE);
+
+    expect(blocks[0].results).toEqual([
+      {
+        type: 1,
+        ident_protocol: 'P001',
+        analytical_code: 'GLU',
+        analytical_name: 'Glucose',
+        reference_value: '70-110',
+        unit: 'mg/dL',
+        code: 'H',
+        result: '128',
+        result_numeric: 128,
+        result_comparator: null,
+        reference_low: 70,
+        reference_high: 110,
+        abnormal_flag: 'high',
+        result_text: 'A jeun\nPrélèvement à 8h',
+      },
+      expect.objectContaining({ type: 5, analytical_code: 'ECG', result: 'Normal', result_numeric: null }),
+    ]);
+    expect(blocks[1].results).toEqual([
+      expect.objectContaining({ ident_protocol: 'PL02', analytical_code: 'HB', result: '<5', result_numeric: 5, result_comparator: '<', abnormal_flag: 'low' }),
+    ]);
+  });
+
+  it('reports unknown segments but not the ignored ones', () => {
+    const { diagnostics } = parseHl7Message(MESSAGE);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.record_type, diagnostic.severity])).toEqual([[9, 'ZZZ', 'warning']]);
+  });
+
+  it('reports OBR without PID and OBX without OBR as errors in strict mode', () => {
+    const message = [
+      'MSH|^~\\&|LAB|LAB01|HIS|CLINIC|20250310||ORU^R01|MSG0001|P|2.5',
+      'OBX|1|NM|GLU^Glucose||98|mg/dL',
+      'OBR|1||P001',
+    ].join('\r');
+
+    for (const [mode, severity] of [['lenient', 'warning'], ['strict', 'error']] as const) {
+      const { blocks, diagnostics } = parseHl7Message(message, mode);
+      expect(blocks.map(block => block.results)).toEqual([[]]);
+      expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.record_type, diagnostic.severity])).toEqual([
+        [2, 'OBX', severity],
+        [3, 'OBR', severity],
+      ]);
+    }
+  });
+
+  it('reads the separators declared in MSH', () => {
+    const { blocks } = parseHl7Message([
+      'MSH#$*@%#LAB#LAB01#HIS#CLINIC#20250310##ORU$R01#MSG0001#P#2.5',
+      'PID#1##CAHWF0325001##DUPONT$Marie',
+      'OBR#1##P001',
+      'OBX#1#TX#TXT$Texte##a@F@b*c',
+    ].join('\r'));
+
+    expect(blocks[0].administrative).toMatchObject({ surname: 'DUPONT', firstname: 'Marie', ident_protocol: 'P001' });
+    expect(blocks[0].results[0].result).toBe('a#b\nc');
+  });
+
+  it.each([
+    ['a\\E\\F\\b', 'a\\F\\b'],
+    ['a\\F\\b', 'a|b'],
+    ['1\\S\\2\\T\\3\\R\\4', '1^2&3~4'],
+    ['line 1\\.br\\line 2', 'line 1\nline 2'],
+    ['\\E\\\\E\\', '\\\\'],
+  ])('unescapes %s in a single pass', (value, expected) => {
+    const { blocks } = parseHl7Message(messageWithValue(value));
+    expect(blocks[0].results[0].result).toBe(expected);
+  });
+});
+
+describe('parseHl7Date', () => {
+  it('converts YYYYMMDD[HHMM[SS]] to an ISO date', () => {
+    expect(parseHl7Date('19800315')).toBe('1980-03-15');
+    expect(parseHl7Date('202503100830')).toBe('2025-03-10');
+    expect(parseHl7Date('20250230')).toBeNull();
+    expect(parseHl7Date('2025')).toBeNull();
+  });
+});
+
+describe('isHl7Message', () => {
+  it('recognises messages and batches', () => {
+    expect(isHl7Message('\r\nMSH|^~\\&|LAB')).toBe(true);
+    expect(isHl7Message('FHS|^~\\&|LAB')).toBe(true);
+    expect(isHl7Message('A1\\P001\\LAB01\\')).toBe(false);
+  });
+});
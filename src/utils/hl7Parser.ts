@@ -0,0 +1,250 @@
+import {
+  DiagnosticSeverity,
+  LabFileParseResult,
+  ParseDiagnostic,
+  ParseMode,
+  ParsedPatientBlock,
+  ParsedResultData,
+  parseLabDate,
+} from './labFileParser';
+import { parseAbnormalFlag, parseReferenceRange, parseResultValue } from './resultValueParser';
+
+// Segmentos que conocemos pero cuyo contenido no se guarda
+const IGNORED_SEGMENTS = ['EVN', 'PV1', 'PV2', 'ORC', 'PD1', 'NK1', 'SPM', 'TQ1', 'SFT', 'CTI', 'FHS', 'BHS', 'BTS', 'FTS'];
+
+// Tipos de valor OBX que corresponden a texto libre (se guardan como L5)
+const TEXT_VALUE_TYPES = ['TX', 'FT'];
+
+/**
+ * Indica si el contenido parece un mensaje HL7 v2 (empieza por un segmento MSH o un lote FHS/BHS).
+ * @param content Contenido del archivo ya decodificado.
+ */
+export const isHl7Message = (content: string): boolean => /^(MSH|FHS|BHS)\|/.test(content.trimStart());
+
+/**
+ * Convierte una fecha HL7 (YYYYMMDD[HHMM[SS]]) a formato ISO (yyyy-mm-dd).
+ * @returns La fecha ISO, o null si no es una fecha válida.
+ */
+export const parseHl7Date = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  return parseLabDate(`${match[3]}${match[2]}${match[1]}`);
+};
+
+/**
+ * Parsea un mensaje (o lote de mensajes) HL7 v2 ORU^R01 a la misma estructura que parseLabFile.
+ * - MSH-4 -> lab_identification
+ * - PID -> datos del paciente (A2/A3)
+ * - OBR -> un bloque por protocolo (A1/A4), identificado por el filler order number
+ * - OBX -> una fila de resultado; NTE -> texto libre del resultado o comentario del protocolo
+ * En modo 'strict', un OBX sin OBR previo o un OBR sin PID se reportan con severidad 'error'.
+ * @param content Contenido del mensaje como string.
+ * @param mode Modo de parseo ('lenient' por defecto).
+ * @returns Los bloques de paciente parseados y los diagnósticos del mensaje.
+ */
+export const parseHl7Message = (content: string, mode: ParseMode = 'lenient'): LabFileParseResult => {
+  const segments = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const patientBlocks: ParsedPatientBlock[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const structuralSeverity: DiagnosticSeverity = mode === 'strict' ? 'error' : 'warning';
+
+  // Caracteres de codificación definidos en MSH-1 / MSH-2
+  let fieldSeparator = '|';
+  let componentSeparator = '^';
+  let repetitionSeparator = '~';
+  let escapeCharacter = '\\';
+  let subcomponentSeparator = '&';
+
+  let labIdentification: string | null = null;
+  let patient: ParsedPatientBlock['administrative'] | null = null;
+  let currentBlock: ParsedPatientBlock | null = null;
+  let lastResult: ParsedResultData | null = null;
+
+  const appendLine = (existing: string | null | undefined, text: string): string =>
+    existing ? `${existing}\n${text}` : text;
+
+  // Sustituye las secuencias de escape HL7 (\F\, \S\, \T\, \R\, \E\, \.br\) en una sola pasada de
+  // izquierda a derecha, para que el texto de una secuencia ya sustituida no se vuelva a interpretar
+  const unescape = (value: string): string => {
+    const e = escapeCharacter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const replacements: { [sequence: string]: string } = {
+      F: fieldSeparator,
+      S: componentSeparator,
+      T: subcomponentSeparator,
+      R: repetitionSeparator,
+      E: escapeCharacter,
+      '.br': '\n',
+    };
+    return value.replace(new RegExp(`${e}(F|S|T|R|E|\\.br)${e}`, 'g'), (_, sequence: string) => replacements[sequence]);
+  };
+
+  // Devuelve un componente (1-based) de la primera repetición de un campo
+  const component = (fieldValue: string | undefined, index: number): string => {
+    const firstRepetition = (fieldValue || '').split(repetitionSeparator)[0];
+    return unescape(firstRepetition.split(componentSeparator)[index - 1] || '').trim();
+  };
+
+  segments.forEach((segment, index) => {
+    const lineNumber = index + 1;
+    if (segment.trim() === '') return;
+
+    const segmentType = segment.slice(0, 3);
+
+    const addDiagnostic = (severity: DiagnosticSeverity, message: string, field: string | null = null) => {
+      diagnostics.push({ line: lineNumber, record_type: segmentType || null, field, severity, message });
+    };
+
+    if (segmentType === 'MSH') {
+      fieldSeparator = segment.charAt(3);
+      const encodingCharacters = segment.slice(4).split(fieldSeparator)[0];
+      componentSeparator = encodingCharacters.charAt(0) || '^';
+      repetitionSeparator = encodingCharacters.charAt(1) || '~';
+      escapeCharacter = encodingCharacters.charAt(2) || '\\';
+      subcomponentSeparator = encodingCharacters.charAt(3) || '&';
+
+      // En el MSH el separador ocupa la posición MSH-1, por eso los índices se desplazan en uno
+      const mshFields = segment.split(fieldSeparator);
+      labIdentification = component(mshFields[3], 1) || null;
+      const messageType = `${component(mshFields[8], 1)}^${component(mshFields[8], 2)}`;
+      if (messageType !== 'ORU^R01') {
+        addDiagnostic('warning', `Tipo de mensaje ${messageType}; se esperaba ORU^R01.`, 'MSH-9');
+      }
+
+      patient = null;
+      currentBlock = null;
+      lastResult = null;
+      return;
+    }
+
+    const fields = segment.split(fieldSeparator);
+
+    switch (segmentType) {
+      case 'PID': {
+        // PID-3 id paciente, PID-5 nombre (apellido^nombre), PID-7 nacimiento, PID-8 sexo, PID-11 dirección
+        const rawDateOfBirth = component(fields[7], 1);
+        const dateOfBirth = rawDateOfBirth ? parseHl7Date(rawDateOfBirth) : null;
+        if (rawDateOfBirth && !dateOfBirth) {
+          addDiagnostic('warning', `Fecha inválida "${rawDateOfBirth}"; se esperaba YYYYMMDD.`, 'date_of_birth');
+        }
+        if (!component(fields[5], 1)) {
+          addDiagnostic('warning', 'Campo obligatorio vacío o ausente (PID-5).', 'surname');
+        }
+
+        patient = {
+          external_identifier: component(fields[3], 1) || null,
+          surname: component(fields[5], 1),
+          firstname: component(fields[5], 2),
+          date_of_birth_raw: rawDateOfBirth || null,
+          date_of_birth: dateOfBirth,
+          sex: component(fields[8], 1),
+          street_number: component(fields[11], 1),
+          city: component(fields[11], 3),
+          postal_code: component(fields[11], 5),
+        };
+        currentBlock = null;
+        lastResult = null;
+        break;
+      }
+      case 'OBR': {
+        // OBR-3 filler order number (OBR-2 placer si falta), OBR-7 fecha de la observación, OBR-16 prescriptor
+        const protocolId = component(fields[3], 1) || component(fields[2], 1);
+        if (!protocolId) {
+          addDiagnostic('warning', 'Campo obligatorio vacío o ausente (OBR-3).', 'ident_protocol');
+        }
+        if (!patient) {
+          addDiagnostic(structuralSeverity, 'OBR sin segmento PID previo.');
+        }
+
+        const rawDateRequest = component(fields[7], 1) || component(fields[6], 1);
+        const dateRequest = rawDateRequest ? parseHl7Date(rawDateRequest) : null;
+        if (rawDateRequest && !dateRequest) {
+          addDiagnostic('warning', `Fecha inválida "${rawDateRequest}"; se esperaba YYYYMMDD.`, 'date_request');
+        }
+
+        const prescriber = [component(fields[16], 1), component(fields[16], 2), component(fields[16], 3)]
+          .filter(part => part !== '').join(' ');
+
+        currentBlock = {
+          administrative: {
+            ...(patient || {}),
+            ident_protocol: protocolId,
+            lab_identification: labIdentification,
+            prescribing_doctor: prescriber || null,
+            date_request_raw: rawDateRequest || null,
+            date_request: dateRequest,
+            protocol_type: component(fields[4], 1) || null,
+          },
+          results: [],
+        };
+        patientBlocks.push(currentBlock);
+        lastResult = null;
+        break;
+      }
+      case 'OBX': {
+        // OBX-2 tipo de valor, OBX-3 código^nombre, OBX-5 valor, OBX-6 unidad, OBX-7 referencia, OBX-8 indicador
+        if (!currentBlock) {
+          addDiagnostic(structuralSeverity, 'OBX sin segmento OBR previo; el resultado se ignora.');
+          return;
+        }
+
+        const valueType = component(fields[2], 1);
+        // Los valores de texto pueden tener varias repeticiones: se unen por líneas
+        const value = (fields[5] || '').split(repetitionSeparator).map(unescape).join('\n').trim();
+        const referenceValue = component(fields[7], 1);
+        const code = component(fields[8], 1);
+        const parsedValue = parseResultValue(value);
+        const range = parseReferenceRange(referenceValue);
+        const flag = parseAbnormalFlag(code, parsedValue, range);
+
+        if (!component(fields[3], 1)) {
+          addDiagnostic('warning', 'Campo obligatorio vacío o ausente (OBX-3).', 'analytical_code');
+        }
+        if (code !== '' && flag === null) {
+          addDiagnostic('info', `Código de anormalidad desconocido "${code}".`, 'code');
+        }
+
+        lastResult = {
+          type: TEXT_VALUE_TYPES.includes(valueType) ? 5 : 1,
+          ident_protocol: currentBlock.administrative.ident_protocol || '',
+          analytical_code: component(fields[3], 1),
+          analytical_name: component(fields[3], 2),
+          reference_value: referenceValue,
+          unit: component(fields[6], 1),
+          code,
+          result: value,
+          result_numeric: parsedValue ? parsedValue.value : null,
+          result_comparator: parsedValue ? parsedValue.comparator : null,
+          reference_low: range ? range.low : null,
+          reference_high: range ? range.high : null,
+          abnormal_flag: flag,
+        };
+        currentBlock.results.push(lastResult);
+        break;
+      }
+      case 'NTE': {
+        // NTE-3 comentario: tras un OBX completa el resultado, si no es un comentario del protocolo
+        const text = (fields[3] || '').split(repetitionSeparator).map(unescape).join('\n');
+        if (lastResult) {
+          lastResult.result_text = appendLine(lastResult.result_text, text);
+        } else if (currentBlock) {
+          currentBlock.administrative.comment = appendLine(currentBlock.administrative.comment, text);
+        } else {
+          addDiagnostic('warning', 'NTE sin OBR ni OBX previo; el comentario se ignora.');
+        }
+        break;
+      }
+      default:
+        if (!IGNORED_SEGMENTS.includes(segmentType)) {
+          if (currentBlock) {
+            // Igual que en parseLabFile: el contenido desconocido se conserva en bruto
+            addDiagnostic('warning', `Segmento desconocido o no manejado: ${segmentType}. Se guarda sin interpretar.`);
+            currentBlock.administrative.unparsed_lines = appendLine(currentBlock.administrative.unparsed_lines, segment);
+          } else {
+            addDiagnostic('warning', `Segmento ignorado: ${segmentType}.`);
+          }
+        }
+    }
+  });
+
+  return { blocks: patientBlocks, diagnostics };
+};
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { parseLabDate, parseLabFile } from './labFileParser';
+
+const lab = (...lines: string[]) => lines.join('\r\n') + '\r\n';
+
+const HEADER = [
+  'A1\\P001\\LAB01\\',
+  'A2\\P001\\DUPONT\\Marie\\F\\15031980\\CAHWF0325001\\',
+  'A4\\P001\\DR123\\10032025\\\\R\\',
+];
+
+describe('parseLabFile', () => {
+  describe('records', () => {
+    it('maps the A1-A5 records to the administrative row', () => {
+      const { blocks } = parseLabFile(lab(
+        ...HEADER,
+        'A3\\P001\\Rue Haute 10\\1000\\Bruxelles\\',
+        'A5\\P001\\MUT\\Marie Dupont\\100\\200\\',
+      ));
+
+      expect(blocks[0].administrative).toEqual({
+        ident_protocol: 'P001',
+        lab_identification: 'LAB01',
+        surname: 'DUPONT',
+        firstname: 'Marie',
+        sex: 'F',
+        date_of_birth: '1980-03-15',
+        date_of_birth_raw: '15031980',
+        external_identifier: 'CAHWF0325001',
+        street_number: 'Rue Haute 10',
+        postal_code: '1000',
+        city: 'Bruxelles',
+        prescribing_doctor: 'DR123',
+        date_request: '2025-03-10',
+        date_request_raw: '10032025',
+        empty_field: null,
+        protocol_type: 'R',
+        cover: 'MUT',
+        holder: 'Marie Dupont',
+        cod_tit1: '100',
+        cod_tit2: '200',
+      });
+    });
+
+    it('adds L2 free text to the previous result of the same code, or keeps it as a text-only result', () => {
+      const { blocks } = parseLabFile(lab(
+        ...HEADER,
+        'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\\\98\\',
+        'L2\\P001\\GLU\\A jeun\\',
+        'L2\\P001\\GLU\\Prélèvement à 8h\\',
+        'L2\\P001\\TXT\\Voir rapport\\',
+      ));
+
+      expect(blocks[0].results.map(result => [result.type, result.analytical_code, result.result, result.result_text ?? null])).toEqual([
+        [1, 'GLU', '98', 'A jeun\nPrélèvement à 8h'],
+        [2, 'TXT', '', 'Voir rapport'],
+      ]);
+    });
+
+    it('joins L3 comments and L9 trailers of the protocol', () => {
+      const { blocks } = parseLabFile(lab(
+        ...HEADER,
+        'L3\\P001\\Echantillon hémolysé\\',
+        'L3\\P001\\A contrôler\\',
+        'L9\\P001\\Validé par\\Dr X\\',
+      ));
+
+      expect(blocks[0].administrative.comment).toBe('Echantillon hémolysé\nA contrôler');
+      expect(blocks[0].administrative.trailer).toBe('Validé par Dr X');
+    });
+
+    it('applies the L4 section to the following results until the next one', () => {
+      const { blocks } = parseLabFile(lab(
+        ...HEADER,
+        'L1\\P001\\HB\\Hémoglobine\\12-16\\g/dL\\\\14\\',
+        'L4\\P001\\Biochimie\\',
+        'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\\\98\\',
+        'L5\\P001\\ECG\\\\\\\\Normal\\',
+        'L4\\P001\\\\',
+        'L1\\P001\\URE\\Urée\\<50\\mg/dL\\\\30\\',
+      ));
+
+      expect(blocks[0].results.map(result => [result.analytical_code, result.section])).toEqual([
+        ['HB', null],
+        ['GLU', 'Biochimie'],
+        ['ECG', 'Biochimie'],
+        ['URE', null],
+      ]);
+    });
+
+    it('keeps unknown records as unparsed lines and reports them', () => {
+      const { blocks, diagnostics } = parseLabFile(lab(...HEADER, 'ZZ\\P001\\ligne inconnue\\', 'L8\\P001\\autre\\'));
+
+      expect(blocks[0].administrative.unparsed_lines).toBe('ZZ\\P001\\ligne inconnue\\\nL8\\P001\\autre\\');
+      expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.record_type, diagnostic.severity])).toEqual([
+        [4, 'ZZ', 'warning'],
+        [5, 'L8', 'warning'],
+      ]);
+    });
+
+    it('starts a new block at every A1', () => {
+      const { blocks } = parseLabFile(lab(
+        ...HEADER,
+        'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\\\98\\',
+        'A1\\P002\\LAB01\\',
+        'A2\\P002\\MARTIN\\Paul\\M\\31121975\\\\',
+        'L1\\P002\\URE\\Urée\\<50\\mg/dL\\\\30\\',
+      ));
+
+      expect(blocks.map(block => [block.administrative.ident_protocol, block.results.map(result => result.analytical_code)])).toEqual([
+        ['P001', ['GLU']],
+        ['P002', ['URE']],
+      ]);
+    });
+  });
+
+  describe('modes', () => {
+    // Problemas estructurales: bloque sin A2, un L1 con pocos campos y un L1 de otro protocolo
+    const STRUCTURAL_PROBLEMS = lab(
+      'A1\\P001\\LAB01\\',
+      'L1\\P001\\GLU\\Glucose\\',
+      'L1\\P999\\URE\\Urée\\<50\\mg/dL\\\\30\\',
+    );
+
+    const summarize = (diagnostics: ReturnType<typeof parseLabFile>['diagnostics']) =>
+      diagnostics.map(diagnostic => [diagnostic.line, diagnostic.record_type, diagnostic.field, diagnostic.severity]);
+
+    it('reports structural problems as warnings in lenient mode and still returns the data', () => {
+      const { blocks, diagnostics } = parseLabFile(STRUCTURAL_PROBLEMS, 'lenient');
+
+      expect(blocks[0].results.map(result => result.analytical_code)).toEqual(['GLU', 'URE']);
+      expect(summarize(diagnostics)).toEqual([
+        [1, 'A1', null, 'warning'], // Sin A2
+        [2, 'L1', 'result', 'warning'], // Resultado vacío
+        [2, 'L1', null, 'warning'], // Pocos campos
+        [3, 'L1', 'ident_protocol', 'warning'],
+      ]);
+    });
+
+    it('reports the same problems as errors in strict mode', () => {
+      const { diagnostics } = parseLabFile(STRUCTURAL_PROBLEMS, 'strict');
+
+      expect(summarize(diagnostics)).toEqual([
+        [1, 'A1', null, 'error'],
+        [2, 'L1', 'result', 'warning'],
+        [2, 'L1', null, 'error'],
+        [3, 'L1', 'ident_protocol', 'error'],
+      ]);
+    });
+
+    it('keeps the non-structural diagnostics as warnings and info in both modes', () => {
+      const content = lab(
+        'L1\\P000\\GLU\\Glucose\\70-110\\mg/dL\\\\98\\',
+        ...HEADER,
+        'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\Q\\98\\',
+      );
+
+      for (const mode of ['lenient', 'strict'] as const) {
+        expect(summarize(parseLabFile(content, mode).diagnostics)).toEqual([
+          [1, 'L1', null, 'warning'], // Antes del primer A1
+          [5, 'L1', 'code', 'info'], // Código de anormalidad desconocido
+        ]);
+      }
+    });
+  });
+});
+
+describe('parseLabDate', () => {
+  it.each([
+    ['15031980', '1980-03-15'],
+    ['29022024', '2024-02-29'], // Año bisiesto
+    ['31122025', '2025-12-31'],
+    [' 01012000 ', '2000-01-01'],
+  ])('converts %s to %s', (value, expected) => {
+    expect(parseLabDate(value)).toBe(expected);
+  });
+
+  it.each([
+    ['00000000'],
+    ['31022024'], // No existe
+    ['29022025'], // No es bisiesto
+    ['01132025'], // Mes 13
+    ['00012025'],
+    ['01010000'],
+    ['1503198'],
+    ['15-03-1980'],
+    ['1980-03-15'],
+    [''],
+  ])('returns null for %s', value => {
+    expect(parseLabDate(value)).toBeNull();
+  });
+
+  it('keeps the raw value and reports an invalid date in the file', () => {
+    const { blocks, diagnostics } = parseLabFile(lab('A1\\P001\\LAB01\\', 'A2\\P001\\DUPONT\\Marie\\F\\31021980\\\\'));
+
+    expect(blocks[0].administrative).toMatchObject({ date_of_birth: null, date_of_birth_raw: '31021980' });
+    expect(diagnostics).toEqual([
+      { line: 2, record_type: 'A2', field: 'date_of_birth', severity: 'warning', message: expect.stringContaining('31021980') },
+    ]);
+  });
+});
@@ -1,17 +1,21 @@
+import { AbnormalFlag, ResultComparator, parseAbnormalFlag, parseReferenceRange, parseResultValue } from './resultValueParser';
+
 // Interfaces para la salida del parser, mapeando a tus tablas administrative y result
-interface ParsedAdministrativeData {
+export interface ParsedAdministrativeData {
   ident_protocol?: string | null;
   lab_identification?: string | null;
   surname?: string | null;
   firstname?: string | null;
   sex?: string | null;
-  date_of_birth?: string | null;
+  date_of_birth?: string | null; // Fecha ISO (yyyy-mm-dd) o null si no es válida
+  date_of_birth_raw?: string | null; // Valor original ddmmyyyy tal como llega en el A2
   external_identifier?: string | null;
   street_number?: string | null;
   postal_code?: string | null;
   city?: string | null;
   prescribing_doctor?: string | null;
-  date_request?: string | null;
+  date_request?: string | null; // Fecha ISO (yyyy-mm-dd) o null si no es válida
+  date_request_raw?: string | null; // Valor original ddmmyyyy tal como llega en el A4
   empty_field?: string | null; // Campo 'vide' en el documento
   protocol_type?: string | null;
   cover?: string | null;
@@ -20,9 +24,12 @@ interface ParsedAdministrativeData {
   cod_tit2?: string | null;
   file_name?: string | null; // Este lo añadiremos nosotros al guardar el archivo
   status?: number | null; // El documento no lo define, pero tu tabla sí
+  comment?: string | null; // Líneas de comentario del protocolo (L3), unidas por saltos de línea
+  trailer?: string | null; // Texto de cierre del protocolo (L9)
+  unparsed_lines?: string | null; // Líneas con tipo de registro desconocido, conservadas tal cual
 }
 
-interface ParsedResultData {
+export interface ParsedResultData {
   type: number; // No está explícitamente en el documento, pero tu tabla sí. Asumiremos 1 para L1, 5 para L5.
   ident_protocol: string;
   analytical_code: string;
@@ -31,43 +38,181 @@ interface ParsedResultData {
   unit: string;
   code: string;
   result: string;
+  result_text?: string | null; // Líneas de texto libre del resultado (L2), unidas por saltos de línea
+  section?: string | null; // Título de la sección (L4) bajo la que aparece el resultado
+  // Valores estructurados calculados a partir del texto; el texto original se conserva arriba
+  result_numeric?: number | null;
+  result_comparator?: ResultComparator | null;
+  reference_low?: number | null;
+  reference_high?: number | null;
+  abnormal_flag?: AbnormalFlag | null;
 }
 
 // Estructura de salida del parser para un bloque de paciente
-interface ParsedPatientBlock {
+export interface ParsedPatientBlock {
   administrative: ParsedAdministrativeData;
   results: ParsedResultData[];
 }
 
+export type DiagnosticSeverity = 'info' | 'warning' | 'error';
+
+// Problema detectado durante el parseo, asociado a una línea concreta del archivo
+export interface ParseDiagnostic {
+  line: number; // Número de línea en el archivo original (empieza en 1)
+  record_type: string | null;
+  field: string | null;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+// lenient: comportamiento histórico, se importa todo lo que se pueda interpretar.
+// strict: los problemas estructurales se marcan como 'error' y el archivo debe rechazarse entero.
+export type ParseMode = 'strict' | 'lenient';
+
+// Resultado completo del parser: bloques de paciente y diagnósticos recogidos
+export interface LabFileParseResult {
+  blocks: ParsedPatientBlock[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// Campos obligatorios por tipo de registro: posición en la línea y nombre de la columna destino
+const REQUIRED_FIELDS: { [recordType: string]: { index: number; field: string }[] } = {
+  A1: [{ index: 1, field: 'ident_protocol' }, { index: 2, field: 'lab_identification' }],
+  A2: [{ index: 2, field: 'surname' }, { index: 3, field: 'firstname' }, { index: 5, field: 'date_of_birth' }],
+  A4: [{ index: 3, field: 'date_request' }],
+  L1: [{ index: 2, field: 'analytical_code' }, { index: 7, field: 'result' }],
+  L5: [{ index: 2, field: 'analytical_code' }, { index: 6, field: 'result' }],
+};
+
+// Número mínimo de campos separados por '\' que debe tener cada línea de resultado
+const MIN_RESULT_FIELDS: { [recordType: string]: number } = {
+  L1: 8,
+  L5: 7,
+};
+
+/**
+ * Convierte una fecha ddmmyyyy del archivo .lab a formato ISO (yyyy-mm-dd).
+ * @param value Fecha en formato ddmmyyyy.
+ * @returns La fecha ISO, o null si el valor no es una fecha de calendario válida.
+ */
+export const parseLabDate = (value: string): string | null => {
+  const match = /^(\d{2})(\d{2})(\d{4})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, dd, mm, yyyy] = match;
+  const day = parseInt(dd, 10);
+  const month = parseInt(mm, 10);
+  const year = parseInt(yyyy, 10);
+
+  // Date.UTC desborda los valores fuera de rango (31/02 -> 02/03), así que comparamos de vuelta
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 1 || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return `${yyyy}-${mm}-${dd}`;
+};
+
 /**
  * Parsea el contenido de un archivo .lab en una estructura de datos.
  * Asume que el archivo contiene uno o más bloques de paciente.
+ * Las líneas ignoradas, los tipos de registro desconocidos y los campos vacíos
+ * se devuelven como diagnósticos en lugar de escribirse en el log.
+ * En modo 'strict', un bloque sin A2, una línea de resultado con pocos campos o un
+ * ident_protocol de resultado distinto al del A1 se reportan con severidad 'error'.
  * @param fileContent Contenido del archivo .lab como string.
- * @returns Un array de bloques de paciente parseados.
+ * @param mode Modo de parseo ('lenient' por defecto).
+ * @returns Los bloques de paciente parseados y los diagnósticos del archivo.
  */
-export const parseLabFile = (fileContent: string): ParsedPatientBlock[] => {
-  const lines = fileContent.split(/\r?\n/).filter(line => line.trim() !== ''); // Dividir por líneas y limpiar vacías
+export const parseLabFile = (fileContent: string, mode: ParseMode = 'lenient'): LabFileParseResult => {
+  const lines = fileContent.split(/\r?\n/); // Dividir por líneas; las vacías se saltan conservando la numeración
   const patientBlocks: ParsedPatientBlock[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
   let currentAdmin: ParsedAdministrativeData = {};
   let currentResults: ParsedResultData[] = [];
   let currentProtocolId: string | null = null; // Para rastrear el ident_protocol del bloque actual
+  let currentSection: string | null = null; // Último título de sección (L4) visto en el bloque actual
+  let currentBlockLine = 0; // Línea del A1 que abrió el bloque actual
+  let currentHasA2 = false;
+
+  // Los problemas estructurales solo bloquean la importación en modo estricto
+  const structuralSeverity: DiagnosticSeverity = mode === 'strict' ? 'error' : 'warning';
+
+  // Cierra el bloque actual, comprobando que tenga datos del paciente (A2)
+  const closeBlock = () => {
+    if (Object.keys(currentAdmin).length > 0 || currentResults.length > 0) {
+      if (!currentHasA2) {
+        diagnostics.push({
+          line: currentBlockLine,
+          record_type: 'A1',
+          field: null,
+          severity: structuralSeverity,
+          message: `El bloque del protocolo ${currentProtocolId} no tiene registro A2.`,
+        });
+      }
+      patientBlocks.push({ administrative: currentAdmin, results: currentResults });
+    }
+  };
+
+  // Añade una línea a un campo de texto multilínea, sin perder el contenido anterior
+  const appendLine = (existing: string | null | undefined, text: string): string =>
+    existing ? `${existing}\n${text}` : text;
+
+  // Convierte una fecha ddmmyyyy a ISO y reporta las fechas imposibles (31022024, 00000000...)
+  const toIsoDate = (value: string | undefined, field: string, addDiagnostic: (severity: DiagnosticSeverity, message: string, field?: string | null) => void): string | null => {
+    if (!value || value.trim() === '') return null; // El campo vacío ya se reporta como obligatorio
+    const isoDate = parseLabDate(value);
+    if (!isoDate) {
+      addDiagnostic('warning', `Fecha inválida "${value}"; se esperaba una fecha ddmmyyyy existente.`, field);
+    }
+    return isoDate;
+  };
+
+  // Calcula los valores estructurados de un resultado y reporta los códigos de anormalidad desconocidos
+  const structureResult = (result: string | undefined, referenceValue: string | undefined, code: string | undefined, addDiagnostic: (severity: DiagnosticSeverity, message: string, field?: string | null) => void) => {
+    const value = parseResultValue(result);
+    const range = parseReferenceRange(referenceValue);
+    const flag = parseAbnormalFlag(code, value, range);
+    if (code && code.trim() !== '' && flag === null) {
+      addDiagnostic('info', `Código de anormalidad desconocido "${code}".`, 'code');
+    }
+    return {
+      result_numeric: value ? value.value : null,
+      result_comparator: value ? value.comparator : null,
+      reference_low: range ? range.low : null,
+      reference_high: range ? range.high : null,
+      abnormal_flag: flag,
+    };
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim() === '') return; // Saltar líneas vacías
 
-  for (const line of lines) {
     const parts = line.split('\\');
     const recordType = parts[0]; // Ej: A1, A2, L1, L5
 
-    if (!recordType) continue; // Saltar líneas vacías o mal formadas
+    const addDiagnostic = (severity: DiagnosticSeverity, message: string, field: string | null = null) => {
+      diagnostics.push({ line: lineNumber, record_type: recordType || null, field, severity, message });
+    };
+
+    if (!recordType) {
+      // Saltar líneas mal formadas
+      addDiagnostic('warning', 'Línea ignorada: no tiene tipo de registro.');
+      return;
+    }
 
     // Si encontramos un nuevo A1, significa un nuevo bloque de paciente
     if (recordType.startsWith('A1')) {
       // Si ya tenemos datos en currentAdmin, significa que el bloque anterior terminó
-      if (Object.keys(currentAdmin).length > 0 || currentResults.length > 0) {
-        patientBlocks.push({ administrative: currentAdmin, results: currentResults });
-      }
+      closeBlock();
       // Reiniciar para el nuevo bloque
       currentAdmin = {};
       currentResults = [];
       currentProtocolId = null; // Resetear el ID del protocolo
+      currentSection = null;
+      currentBlockLine = lineNumber;
+      currentHasA2 = false;
 
       // Parsear A1
       currentProtocolId = parts[1];
@@ -76,19 +221,41 @@ export const parseLabFile = (fileContent: string): ParsedPatientBlock[] => {
     } else if (currentProtocolId === null) {
       // Si no hemos encontrado un A1 inicial, saltar hasta que lo hagamos
       // Esto maneja el caso de datos corruptos o si el archivo no empieza con A1
-      console.warn(`Línea ignorada antes del primer A1: ${line}`);
-      continue;
+      addDiagnostic('warning', `Línea ignorada antes del primer A1: ${line}`);
+      return;
+    }
+
+    // Comprobar que los campos obligatorios del registro no estén vacíos
+    for (const { index: fieldIndex, field } of REQUIRED_FIELDS[recordType] || []) {
+      if (!parts[fieldIndex] || parts[fieldIndex].trim() === '') {
+        addDiagnostic('warning', `Campo obligatorio vacío o ausente (posición ${fieldIndex}).`, field);
+      }
+    }
+
+    // Comprobaciones estructurales de las líneas de resultado
+    if (MIN_RESULT_FIELDS[recordType] !== undefined) {
+      if (parts.length < MIN_RESULT_FIELDS[recordType]) {
+        addDiagnostic(structuralSeverity, `La línea tiene ${parts.length} campos; se esperaban al menos ${MIN_RESULT_FIELDS[recordType]}.`);
+      }
+      if (parts[1] !== currentProtocolId) {
+        addDiagnostic(structuralSeverity, `El ident_protocol ${parts[1]} no coincide con el del A1 (${currentProtocolId}).`, 'ident_protocol');
+      }
     }
 
     // Parsear otras partes administrativas
     switch (recordType) {
+      case 'A1':
+        // Ya procesado arriba al abrir el bloque
+        break;
       case 'A2':
         // A2\<ident.protocole>\<nom>\<prénom>\<sexe>\<date de naissance>\<identifiant externo>
         // Nota: el documento dice <nom> y <prénom>, pero tu tabla tiene surname y firstname
+        currentHasA2 = true;
         currentAdmin.surname = parts[2];
         currentAdmin.firstname = parts[3];
         currentAdmin.sex = parts[4];
-        currentAdmin.date_of_birth = parts[5]; // ddmmyyyy
+        currentAdmin.date_of_birth_raw = parts[5]; // ddmmyyyy
+        currentAdmin.date_of_birth = toIsoDate(parts[5], 'date_of_birth', addDiagnostic);
         currentAdmin.external_identifier = parts[6] || null;
         break;
       case 'A3':
@@ -100,7 +267,8 @@ export const parseLabFile = (fileContent: string): ParsedPatientBlock[] => {
       case 'A4':
         // A4\<ident.protocole>\<ident.prescripteur>\<date demande>\<vide>\<type de protocole>\
         currentAdmin.prescribing_doctor = parts[2];
-        currentAdmin.date_request = parts[3]; // ddmmyyyy
+        currentAdmin.date_request_raw = parts[3]; // ddmmyyyy
+        currentAdmin.date_request = toIsoDate(parts[3], 'date_request', addDiagnostic);
         currentAdmin.empty_field = parts[4] || null; // Campo 'vide'
         currentAdmin.protocol_type = parts[5];
         break;
@@ -125,6 +293,8 @@ export const parseLabFile = (fileContent: string): ParsedPatientBlock[] => {
           unit: parts[5],
           code: parts[6],
           result: parts[7],
+          section: currentSection,
+          ...structureResult(parts[7], parts[4], parts[6], addDiagnostic),
         });
         break;
       case 'L5':
@@ -138,17 +308,63 @@ export const parseLabFile = (fileContent: string): ParsedPatientBlock[] => {
           unit: '', // No provided in L5 structure
           code: '', // No provided in L5 structure
           result: parts[6], // resultado
+          section: currentSection,
+          ...structureResult(parts[6], '', '', addDiagnostic),
         });
         break;
+      case 'L2': {
+        // L2\id.prot.\code anal.\texte libre\
+        // Línea de texto libre que completa el resultado del análisis indicado.
+        // Si no hay un resultado previo con ese código, se crea uno solo con texto.
+        const analyticalCode = parts[2] || '';
+        const text = parts[3] || '';
+        const target = [...currentResults].reverse().find(r => r.analytical_code === analyticalCode);
+        if (target) {
+          target.result_text = appendLine(target.result_text, text);
+        } else {
+          addDiagnostic('info', `Texto libre sin resultado previo para el análisis ${analyticalCode}; se guarda como resultado de texto.`, 'analytical_code');
+          currentResults.push({
+            type: 2, // Asumimos tipo 2 para resultados solo de texto (L2)
+            ident_protocol: parts[1],
+            analytical_code: analyticalCode,
+            analytical_name: '',
+            reference_value: '',
+            unit: '',
+            code: '',
+            result: '',
+            result_text: text,
+            section: currentSection,
+          });
+        }
+        break;
+      }
+      case 'L3':
+        // L3\id.prot.\commentaire\
+        // Comentario del protocolo; puede ocupar varias líneas L3 consecutivas
+        currentAdmin.comment = appendLine(currentAdmin.comment, parts[2] || '');
+        break;
+      case 'L4':
+        // L4\id.prot.\titre de section\
+        // Encabezado de sección: se aplica a los resultados siguientes del bloque
+        currentSection = parts[2] || null;
+        break;
+      case 'L9':
+        // L9\id.prot.\texte de fin\
+        // Cierre del protocolo (firma, validación, número de líneas, etc.)
+        currentAdmin.trailer = appendLine(currentAdmin.trailer, parts.slice(2).filter(p => p !== '').join(' '));
+        break;
       default:
-        console.warn(`Tipo de registro desconocido o no manejado: ${recordType} en línea: ${line}`);
+        // No descartamos la línea: se guarda en bruto para no perder contenido clínico
+        addDiagnostic('warning', `Tipo de registro desconocido o no manejado: ${recordType}. La línea se guarda sin interpretar.`);
+        currentAdmin.unparsed_lines = appendLine(currentAdmin.unparsed_lines, line);
     }
-  }
+  });
 
   // Añadir el último bloque de paciente si existe
-  if (Object.keys(currentAdmin).length > 0 || currentResults.length > 0) {
-    patientBlocks.push({ administrative: currentAdmin, results: currentResults });
-  }
+  closeBlock();
+
+  // Los diagnósticos de bloque se generan al cerrarlo; se ordenan por línea para el informe
+  diagnostics.sort((a, b) => a.line - b.line);
 
-  return patientBlocks;
+  return { blocks: patientBlocks, diagnostics };
 };
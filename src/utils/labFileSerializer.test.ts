@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseLabFile } from './labFileParser';
+import { serializeLabFile } from './labFileSerializer';
+
+const LAB_FILE = [
+  'A1\\P001\\LAB01\\',
+  'A2\\P001\\DUPONT\\Marie\\F\\15031980\\CAHWF0325001\\',
+  'A3\\P001\\Rue Haute 10\\1000\\Bruxelles\\',
+  'A4\\P001\\DR123\\10032025\\\\R\\',
+  'A5\\P001\\MUT\\Marie Dupont\\100\\200\\',
+  'L4\\P001\\Biochimie\\',
+  'L1\\P001\\GLU\\Glucose\\70-110\\mg/dL\\H\\128\\',
+  'L2\\P001\\GLU\\A jeun\\',
+  'L4\\P001\\\\',
+  'L5\\P001\\ECG\\\\\\\\Normal\\',
+  'L2\\P001\\TXT\\Voir rapport\\',
+  'L3\\P001\\Echantillon hémolysé\\',
+  'L9\\P001\\Validé par Dr X\\',
+  'A1\\P002\\LAB01\\',
+  'A2\\P002\\MARTIN\\Paul\\M\\31021975\\\\',
+  'A3\\P002\\Avenue Louise 5\\1050\\Ixelles\\',
+  'A4\\P002\\DR456\\11032025\\\\R\\',
+  'A5\\P002\\MUT\\Paul Martin\\101\\201\\',
+  'L1\\P002\\URE\\Urée\\<50\\mg/dL\\\\<=10\\',
+  'ZZ\\P002\\ligne inconnue\\',
+].join('\r\n') + '\r\n';
+
+describe('serializeLabFile', () => {
+  it('parses back to the same blocks (parse → serialize → parse)', () => {
+    const parsed = parseLabFile(LAB_FILE);
+    const reparsed = parseLabFile(serializeLabFile(parsed.blocks));
+
+    expect(reparsed.blocks).toEqual(parsed.blocks);
+  });
+
+  it('closes the section for a result without section', () => {
+    const { blocks } = parseLabFile(LAB_FILE);
+    expect(blocks[0].results.map(result => result.section)).toEqual(['Biochimie', null, null]);
+
+    const reparsed = parseLabFile(serializeLabFile(blocks));
+    expect(reparsed.blocks[0].results.map(result => result.section)).toEqual(['Biochimie', null, null]);
+  });
+
+  it('writes dates from the ISO value and keeps the original only for invalid dates', () => {
+    const { blocks } = parseLabFile(LAB_FILE);
+    blocks[0].administrative.date_of_birth = '1980-03-16'; // Corregida después de importar
+
+    const content = serializeLabFile(blocks);
+    expect(content).toContain('A2\\P001\\DUPONT\\Marie\\F\\16031980\\CAHWF0325001\\');
+    expect(content).toContain('A2\\P002\\MARTIN\\Paul\\M\\31021975\\\\');
+  });
+});
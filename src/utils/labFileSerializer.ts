@@ -0,0 +1,132 @@
+// Serializador de registros administrative/result al formato .lab (inverso de parseLabFile)
+
+// Campos de la tabla administrative que se escriben en el archivo
+export interface LabAdministrativeRecord {
+  ident_protocol?: string | null;
+  lab_identification?: string | null;
+  surname?: string | null;
+  firstname?: string | null;
+  sex?: string | null;
+  date_of_birth?: string | null;
+  date_of_birth_raw?: string | null;
+  external_identifier?: string | null;
+  street_number?: string | null;
+  postal_code?: string | null;
+  city?: string | null;
+  prescribing_doctor?: string | null;
+  date_request?: string | null;
+  date_request_raw?: string | null;
+  empty_field?: string | null;
+  protocol_type?: string | null;
+  cover?: string | null;
+  holder?: string | null;
+  cod_tit1?: string | null;
+  cod_tit2?: string | null;
+  comment?: string | null;
+  trailer?: string | null;
+  unparsed_lines?: string | null;
+}
+
+// Campos de la tabla result que se escriben en el archivo
+export interface LabResultRecord {
+  type: number;
+  ident_protocol?: string | null;
+  analytical_code?: string | null;
+  analytical_name?: string | null;
+  reference_value?: string | null;
+  unit?: string | null;
+  code?: string | null;
+  result?: string | null;
+  result_text?: string | null;
+  section?: string | null;
+}
+
+export interface LabRecordBlock {
+  administrative: LabAdministrativeRecord;
+  results: LabResultRecord[];
+}
+
+// Los sistemas destino esperan finales de línea Windows
+const LINE_SEPARATOR = '\r\n';
+
+/**
+ * Limpia un valor para escribirlo como campo: el separador '\' y los saltos de línea
+ * romperían la estructura de la línea.
+ */
+const field = (value: string | number | null | undefined): string =>
+  value === null || value === undefined ? '' : String(value).replace(/\\/g, '/').replace(/\r?\n/g, ' ');
+
+// Construye una línea "TIPO\campo1\campo2\...\" con el separador final del formato
+const record = (recordType: string, ...fields: (string | number | null | undefined)[]): string =>
+  `${recordType}\\${fields.map(field).join('\\')}\\`;
+
+/**
+ * Convierte una fecha ISO (yyyy-mm-dd) al formato ddmmyyyy del archivo .lab.
+ * @param isoDate Fecha ISO; también acepta timestamps ISO completos.
+ * @returns La fecha ddmmyyyy, o una cadena vacía si no es una fecha ISO.
+ */
+export const formatLabDate = (isoDate: string | null | undefined): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(isoDate || '');
+  return match ? `${match[3]}${match[2]}${match[1]}` : '';
+};
+
+/**
+ * Serializa un bloque de paciente (A1–A5, resultados, comentarios y cierre).
+ * Las fechas se escriben desde el valor ISO; el valor original del archivo solo se usa
+ * cuando no hay fecha ISO (fechas que no se pudieron interpretar al importar).
+ */
+const serializeBlock = ({ administrative: admin, results }: LabRecordBlock): string[] => {
+  const protocol = admin.ident_protocol;
+  const lines: string[] = [
+    record('A1', protocol, admin.lab_identification),
+    record('A2', protocol, admin.surname, admin.firstname, admin.sex, admin.date_of_birth ? formatLabDate(admin.date_of_birth) : admin.date_of_birth_raw, admin.external_identifier),
+    record('A3', protocol, admin.street_number, admin.postal_code, admin.city),
+    record('A4', protocol, admin.prescribing_doctor, admin.date_request ? formatLabDate(admin.date_request) : admin.date_request_raw, admin.empty_field, admin.protocol_type),
+    record('A5', protocol, admin.cover, admin.holder, admin.cod_tit1, admin.cod_tit2),
+  ];
+
+  let currentSection: string | null = null;
+  for (const result of results) {
+    const resultProtocol = result.ident_protocol || protocol;
+
+    // Un L4 cada vez que cambia la sección; un L4 sin título cierra la sección anterior
+    const section = result.section || null;
+    if (section !== currentSection) {
+      lines.push(record('L4', protocol, section));
+      currentSection = section;
+    }
+
+    if (result.type === 1) {
+      lines.push(record('L1', resultProtocol, result.analytical_code, result.analytical_name, result.reference_value, result.unit, result.code, result.result));
+    } else if (result.type === 5) {
+      lines.push(record('L5', resultProtocol, result.analytical_code, '', '', '', result.result));
+    }
+
+    // Texto libre del resultado (los resultados de tipo 2 solo tienen L2)
+    for (const text of (result.result_text || '').split('\n').filter(line => line !== '')) {
+      lines.push(record('L2', resultProtocol, result.analytical_code, text));
+    }
+  }
+
+  for (const comment of (admin.comment || '').split('\n').filter(line => line !== '')) {
+    lines.push(record('L3', protocol, comment));
+  }
+
+  // Las líneas desconocidas se reenvían tal como llegaron
+  lines.push(...(admin.unparsed_lines || '').split('\n').filter(line => line !== ''));
+
+  for (const trailer of (admin.trailer || '').split('\n').filter(line => line !== '')) {
+    lines.push(record('L9', protocol, trailer));
+  }
+
+  return lines;
+};
+
+/**
+ * Genera el contenido de un archivo .lab a partir de uno o más registros administrativos
+ * con sus resultados. Es el inverso de parseLabFile: parsear el resultado devuelve los mismos datos.
+ * @param blocks Bloques { administrative, results } en el orden en que deben escribirse.
+ * @returns El contenido del archivo .lab.
+ */
+export const serializeLabFile = (blocks: LabRecordBlock[]): string =>
+  blocks.flatMap(serializeBlock).map(line => line + LINE_SEPARATOR).join('');
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { canTransitionOrder, deriveOrderStatus } from './orderStatus';
+
+describe('deriveOrderStatus', () => {
+  it('does not count a line invoiced before its result as resulted', () => {
+    expect(deriveOrderStatus([{ status: 'invoiced' }, { status: 'sent' }])).toBe('sent');
+    expect(deriveOrderStatus([{ status: 'invoiced' }, { status: 'invoiced' }])).toBe('sent');
+  });
+
+  it('counts an invoiced line once its result is linked', () => {
+    const resultedAt = '2025-03-10T10:00:00.000Z';
+    expect(deriveOrderStatus([{ status: 'invoiced', resulted_at: resultedAt }, { status: 'sent' }])).toBe('partially_resulted');
+    expect(deriveOrderStatus([{ status: 'invoiced', resulted_at: resultedAt }, { status: 'resulted', resulted_at: resultedAt }])).toBe('resulted');
+    expect(deriveOrderStatus([{ status: 'invoiced', resulted_at: resultedAt }, { status: 'invoiced', resulted_at: resultedAt }])).toBe('invoiced');
+  });
+
+  it('keeps draft and sent orders apart', () => {
+    expect(deriveOrderStatus([])).toBe('draft');
+    expect(deriveOrderStatus([{ status: 'draft' }, { status: 'draft' }])).toBe('draft');
+    expect(deriveOrderStatus([{ status: 'draft' }, { status: 'sent' }])).toBe('sent');
+  });
+});
+
+describe('canTransitionOrder', () => {
+  it('only invoices an order after all its results', () => {
+    expect(canTransitionOrder('sent', 'invoiced')).toBe(false);
+    expect(canTransitionOrder('partially_resulted', 'invoiced')).toBe(false);
+    expect(canTransitionOrder('resulted', 'invoiced')).toBe(true);
+  });
+});
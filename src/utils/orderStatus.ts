@@ -0,0 +1,78 @@
+// Ciclo de vida de los pedidos (tabla order) y de sus líneas (tabla orderdetail).
+// Los estados solo avanzan; cada estado guarda la fecha en que se alcanzó en la columna <estado>_at.
+
+export const ORDER_STATUSES = ['draft', 'sent', 'partially_resulted', 'resulted', 'invoiced'] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_LINE_STATUSES = ['draft', 'sent', 'resulted', 'invoiced'] as const;
+export type OrderLineStatus = typeof ORDER_LINE_STATUSES[number];
+
+// Estado de una línea de pedido. resulted_at guarda cuándo se le enlazó un resultado, también si ya estaba
+// facturada: un análisis puede facturarse antes de tener resultado, y entonces su estado sigue siendo 'invoiced'.
+export interface OrderLineState {
+  status: OrderLineStatus;
+  resulted_at?: string | null;
+}
+
+// Transiciones permitidas. Un pedido solo se factura cuando todas sus líneas tienen resultado y están facturadas.
+const ORDER_TRANSITIONS: { [status in OrderStatus]: OrderStatus[] } = {
+  draft: ['sent'],
+  sent: ['partially_resulted', 'resulted'],
+  partially_resulted: ['resulted'],
+  resulted: ['invoiced'],
+  invoiced: [],
+};
+
+// Una línea puede facturarse antes de tener resultado (ver OrderLineState)
+const ORDER_LINE_TRANSITIONS: { [status in OrderLineStatus]: OrderLineStatus[] } = {
+  draft: ['sent'],
+  sent: ['resulted', 'invoiced'],
+  resulted: ['invoiced'],
+  invoiced: [],
+};
+
+/**
+ * Indica si un pedido puede pasar de un estado a otro.
+ */
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus): boolean =>
+  (ORDER_TRANSITIONS[from] || []).includes(to);
+
+/**
+ * Indica si una línea de pedido puede pasar de un estado a otro.
+ */
+export const canTransitionOrderLine = (from: OrderLineStatus, to: OrderLineStatus): boolean =>
+  (ORDER_LINE_TRANSITIONS[from] || []).includes(to);
+
+/**
+ * Columnas a actualizar al cambiar de estado: el estado, su fecha y la del último cambio.
+ * 'draft' no tiene columna propia (es la fecha de creación).
+ */
+export const statusUpdate = (status: OrderStatus | OrderLineStatus, at: string = new Date().toISOString()) => ({
+  status,
+  ...(status === 'draft' ? {} : { [`${status}_at`]: at }),
+  status_updated_at: at,
+  updated_at: at,
+});
+
+/**
+ * Indica si una línea de pedido tiene un resultado enlazado: está en 'resulted' o,
+ * si se facturó antes, tiene fecha de resultado.
+ */
+export const lineHasResult = (line: OrderLineState): boolean =>
+  line.status === 'resulted' || !!line.resulted_at;
+
+/**
+ * Estado que corresponde a un pedido según el de sus líneas activas.
+ * Una línea facturada sin resultado sigue pendiente de resultado.
+ * @param lines Estados de las líneas.
+ */
+export const deriveOrderStatus = (lines: OrderLineState[]): OrderStatus => {
+  if (lines.length === 0) return 'draft';
+
+  const withResult = lines.filter(lineHasResult).length;
+  if (withResult === lines.length) {
+    return lines.every(line => line.status === 'invoiced') ? 'invoiced' : 'resulted';
+  }
+  if (withResult > 0) return 'partially_resulted';
+  return lines.some(line => line.status !== 'draft') ? 'sent' : 'draft';
+};
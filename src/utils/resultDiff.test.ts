@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedResultData } from './labFileParser';
+import { diffAdministrative, diffResults, hasResultChanges, StoredResultRow } from './resultDiff';
+
+const parsedResult = (analyticalCode: string, result: string, extra: Partial<ParsedResultData> = {}): ParsedResultData => ({
+  type: 1,
+  ident_protocol: 'P001',
+  analytical_code: analyticalCode,
+  analytical_name: analyticalCode,
+  reference_value: '',
+  unit: '',
+  code: '',
+  result,
+  ...extra,
+});
+
+const storedResult = (resultId: string, analyticalCode: string, result: string, extra: Partial<StoredResultRow> = {}): StoredResultRow => ({
+  result_id: resultId,
+  type: 1,
+  analytical_code: analyticalCode,
+  analytical_name: analyticalCode,
+  reference_value: null, // Vacío en base de datos: igual que ''
+  unit: null,
+  code: null,
+  result,
+  ...extra,
+});
+
+describe('diffResults', () => {
+  it('finds no changes when the parser gives the same results', () => {
+    const diff = diffResults(
+      [storedResult('r1', 'GLU', '98'), storedResult('r2', 'URE', '30')],
+      [parsedResult('GLU', '98'), parsedResult('URE', '30')]
+    );
+
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+    expect(hasResultChanges(diff)).toBe(false);
+  });
+
+  it('reports added, removed and changed results', () => {
+    const diff = diffResults(
+      [storedResult('r1', 'GLU', '98'), storedResult('r2', 'URE', '30')],
+      [parsedResult('GLU', '98', { section: 'Biochimie' }), parsedResult('CRE', '0.9')]
+    );
+
+    expect(diff.added.map(result => result.analytical_code)).toEqual(['CRE']);
+    expect(diff.removed).toEqual([{ result_id: 'r2', analytical_code: 'URE', result: '30' }]);
+    expect(diff.changed).toEqual([
+      { result_id: 'r1', analytical_code: 'GLU', fields: { section: { before: null, after: 'Biochimie' } } },
+    ]);
+    expect(hasResultChanges(diff)).toBe(true);
+  });
+
+  it('pairs repeated analytical codes by order of appearance', () => {
+    const diff = diffResults(
+      [storedResult('r1', 'TXT', 'first'), storedResult('r2', 'TXT', 'second')],
+      [parsedResult('TXT', 'first'), parsedResult('TXT', 'second (corrected)')]
+    );
+
+    expect(diff.changed).toEqual([
+      { result_id: 'r2', analytical_code: 'TXT', fields: { result: { before: 'second', after: 'second (corrected)' } } },
+    ]);
+  });
+
+  it('compares numbers as text', () => {
+    const diff = diffResults(
+      [storedResult('r1', 'GLU', '98', { result_numeric: 98 })],
+      [parsedResult('GLU', '98', { result_numeric: 98.0 })]
+    );
+
+    expect(hasResultChanges(diff)).toBe(false);
+  });
+});
+
+describe('diffAdministrative', () => {
+  it('reports the changed header fields and ignores empty values', () => {
+    const stored = {
+      administrative_id: 'a1', ident_protocol: 'P001', surname: 'DUPONT', date_of_birth: null, date_of_birth_raw: '31021980', comment: null, trailer: '',
+    };
+
+    const diff = diffAdministrative(stored, {
+      ident_protocol: 'P001', surname: 'DUPONT', date_of_birth: null, date_of_birth_raw: '31021980', comment: 'Echantillon hémolysé', unparsed_lines: '',
+    });
+
+    expect(diff).toEqual({ comment: { before: null, after: 'Echantillon hémolysé' } });
+  });
+});
@@ -0,0 +1,167 @@
+import { ParsedAdministrativeData, ParsedResultData } from './labFileParser';
+
+// Columnas de la tabla result que produce el parser y que se comparan al reprocesar
+export const COMPARED_RESULT_FIELDS = [
+  'type',
+  'analytical_name',
+  'reference_value',
+  'unit',
+  'code',
+  'result',
+  'result_text',
+  'section',
+  'result_numeric',
+  'result_comparator',
+  'reference_low',
+  'reference_high',
+  'abnormal_flag',
+] as const satisfies readonly (keyof ParsedResultData)[];
+
+type ComparedResultField = typeof COMPARED_RESULT_FIELDS[number];
+
+// Columnas de la tabla administrative que produce el parser y que se comparan al reprocesar
+// (ident_protocol no se compara: es la clave con la que se empareja el registro)
+export const COMPARED_ADMINISTRATIVE_FIELDS = [
+  'lab_identification',
+  'surname',
+  'firstname',
+  'sex',
+  'date_of_birth',
+  'date_of_birth_raw',
+  'external_identifier',
+  'street_number',
+  'postal_code',
+  'city',
+  'prescribing_doctor',
+  'date_request',
+  'date_request_raw',
+  'empty_field',
+  'protocol_type',
+  'cover',
+  'holder',
+  'cod_tit1',
+  'cod_tit2',
+  'comment',
+  'trailer',
+  'unparsed_lines',
+] as const satisfies readonly (keyof ParsedAdministrativeData)[];
+
+type ComparedAdministrativeField = typeof COMPARED_ADMINISTRATIVE_FIELDS[number];
+
+// Fila activa de la tabla result guardada (las columnas pueden venir a null desde la base de datos)
+export type StoredResultRow = {
+  result_id: string;
+  administrative_id?: string;
+  analytical_code: string | null;
+  result: string | null;
+  orderdetail_id?: string | null;
+  order_link_source?: 'auto' | 'manual' | null;
+} & { [field in ComparedResultField]?: ParsedResultData[field] | null };
+
+// Fila activa de la tabla administrative guardada
+export type StoredAdministrativeRow = {
+  administrative_id: string;
+  ident_protocol: string | null;
+} & { [field in ComparedAdministrativeField]?: string | null };
+
+export interface ResultFieldChange {
+  before: any;
+  after: any;
+}
+
+export interface ResultDiff {
+  added: ParsedResultData[];
+  removed: { result_id: string; analytical_code: string | null; result: string | null }[];
+  changed: { result_id: string; analytical_code: string; fields: { [field: string]: ResultFieldChange } }[];
+}
+
+// Campos de cabecera que han cambiado (vacío si no hay diferencias)
+export type AdministrativeDiff = { [field: string]: ResultFieldChange };
+
+// null, undefined y '' se consideran el mismo valor vacío; los números se comparan como texto
+const normalize = (value: any): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+// Clave de emparejamiento: código de análisis y número de aparición (un código puede repetirse)
+const keyResults = <T extends { analytical_code?: string | null }>(results: T[]): Map<string, T> => {
+  const keyed = new Map<string, T>();
+  const occurrences: { [code: string]: number } = {};
+  for (const result of results) {
+    const code = result.analytical_code || '';
+    occurrences[code] = (occurrences[code] || 0) + 1;
+    keyed.set(`${code}#${occurrences[code]}`, result);
+  }
+  return keyed;
+};
+
+/**
+ * Compara las filas result guardadas de un protocolo con los resultados que produce ahora el parser.
+ * @param existing Filas activas de la tabla result (en orden de creación).
+ * @param parsed Resultados del mismo protocolo según el parser actual.
+ * @returns Resultados nuevos, desaparecidos y modificados (campo a campo).
+ */
+export const diffResults = (existing: StoredResultRow[], parsed: ParsedResultData[]): ResultDiff => {
+  const existingByKey = keyResults(existing);
+  const parsedByKey = keyResults(parsed);
+  const diff: ResultDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, result] of parsedByKey) {
+    const current = existingByKey.get(key);
+    if (!current) {
+      diff.added.push(result);
+      continue;
+    }
+
+    const fields: { [field: string]: ResultFieldChange } = {};
+    for (const field of COMPARED_RESULT_FIELDS) {
+      if (normalize(current[field]) !== normalize(result[field])) {
+        fields[field] = { before: current[field] ?? null, after: result[field] ?? null };
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      diff.changed.push({ result_id: current.result_id, analytical_code: result.analytical_code, fields });
+    }
+  }
+
+  for (const [key, current] of existingByKey) {
+    if (!parsedByKey.has(key)) {
+      diff.removed.push({ result_id: current.result_id, analytical_code: current.analytical_code, result: current.result });
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Compara la fila administrative guardada de un protocolo con la cabecera que produce ahora el parser.
+ * @param existing Fila activa de la tabla administrative.
+ * @param parsed Datos administrativos del mismo protocolo según el parser actual.
+ * @returns Los campos modificados, con su valor anterior y el nuevo.
+ */
+export const diffAdministrative = (existing: StoredAdministrativeRow, parsed: ParsedAdministrativeData): AdministrativeDiff => {
+  const fields: AdministrativeDiff = {};
+  for (const field of COMPARED_ADMINISTRATIVE_FIELDS) {
+    if (normalize(existing[field]) !== normalize(parsed[field])) {
+      fields[field] = { before: existing[field] ?? null, after: parsed[field] ?? null };
+    }
+  }
+  return fields;
+};
+
+/**
+ * Empareja cada resultado del parser con la fila guardada a la que sustituye
+ * (mismo código de análisis y número de aparición, como en diffResults).
+ * @param existing Filas activas de la tabla result (en orden de creación).
+ * @param parsed Resultados del mismo protocolo según el parser actual.
+ * @returns Para cada resultado del parser, en el mismo orden, su fila guardada o null.
+ */
+export const matchStoredResults = (existing: StoredResultRow[], parsed: ParsedResultData[]): (StoredResultRow | null)[] => {
+  const existingByKey = keyResults(existing);
+  return [...keyResults(parsed).keys()].map(key => existingByKey.get(key) || null);
+};
+
+/**
+ * Indica si la comparación encontró alguna diferencia.
+ */
+export const hasResultChanges = (diff: ResultDiff): boolean =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseAbnormalFlag, parseReferenceRange, parseResultValue } from './resultValueParser';
+
+const flagOf = (result: string, reference: string) =>
+  parseAbnormalFlag('', parseResultValue(result), parseReferenceRange(reference));
+
+describe('parseAbnormalFlag', () => {
+  it.each([
+    // Comparador igual al límite: solo el estricto deja el resultado fuera del intervalo
+    ['<5', '5-10', 'low'],
+    ['<=5', '5-10', null],
+    ['>10', '5-10', 'high'],
+    ['>=10', '5-10', null],
+    // Comparador fuera del intervalo
+    ['<=4', '5-10', 'low'],
+    ['>=11', '5-10', 'high'],
+    // Comparador dentro de un límite abierto
+    ['<=50', '<50', 'normal'],
+    ['>=5', '>5', 'normal'],
+    // Sin comparador
+    ['5', '5-10', 'normal'],
+    ['4.9', '5-10', 'low'],
+    ['10.1', '5-10', 'high'],
+  ])('flags %s with reference %s as %s', (result, reference, expected) => {
+    expect(flagOf(result, reference)).toBe(expected);
+  });
+
+  it('uses the lab code when there is one', () => {
+    expect(parseAbnormalFlag('H', parseResultValue('<=5'), parseReferenceRange('5-10'))).toBe('high');
+  });
+});
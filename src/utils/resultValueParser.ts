@@ -0,0 +1,130 @@
+// Interpretación de los valores de texto de una línea de resultado (L1/L5):
+// resultado numérico con comparador, intervalo de referencia y código de anormalidad.
+
+export type ResultComparator = '<' | '<=' | '>' | '>=';
+
+export type AbnormalFlag = 'normal' | 'low' | 'high' | 'critical';
+
+// Resultado numérico, ej. "<0.5" -> { value: 0.5, comparator: '<' }
+export interface ParsedResultValue {
+  value: number;
+  comparator: ResultComparator | null;
+}
+
+// Intervalo de referencia; uno de los dos límites puede faltar (ej. "<5" o ">40")
+export interface ParsedReferenceRange {
+  low: number | null;
+  high: number | null;
+}
+
+// Número con punto o coma decimal (los laboratorios belgas usan ambos)
+const NUMBER_PATTERN = '[+-]?\\d+(?:[.,]\\d+)?';
+
+const RESULT_REGEX = new RegExp(`^(<=|>=|≤|≥|<|>)?\\s*(${NUMBER_PATTERN})$`);
+const RANGE_REGEX = new RegExp(`^(${NUMBER_PATTERN})\\s*(?:-|–|à)\\s*(${NUMBER_PATTERN})$`);
+const BOUND_REGEX = new RegExp(`^(<=|>=|≤|≥|<|>)\\s*(${NUMBER_PATTERN})$`);
+
+// Códigos de la columna "code" del L1 y su significado
+const FLAG_CODES: { [code: string]: AbnormalFlag } = {
+  'N': 'normal',
+  '-': 'low',
+  'L': 'low',
+  '<': 'low',
+  '+': 'high',
+  'H': 'high',
+  '>': 'high',
+  '*': 'high',
+  '--': 'critical',
+  '++': 'critical',
+  'LL': 'critical',
+  'HH': 'critical',
+  '**': 'critical',
+  '!': 'critical',
+};
+
+const toNumber = (value: string): number => parseFloat(value.replace(',', '.'));
+
+const normalizeComparator = (comparator: string): ResultComparator => {
+  if (comparator === '≤') return '<=';
+  if (comparator === '≥') return '>=';
+  return comparator as ResultComparator;
+};
+
+/**
+ * Interpreta el texto de un resultado como valor numérico con comparador opcional.
+ * @param text Texto del resultado (ej. "14.2", "<0.5", ">= 90").
+ * @returns El valor estructurado, o null si el resultado no es numérico.
+ */
+export const parseResultValue = (text: string | null | undefined): ParsedResultValue | null => {
+  if (!text) return null;
+  const match = RESULT_REGEX.exec(text.trim());
+  if (!match) return null;
+
+  return {
+    value: toNumber(match[2]),
+    comparator: match[1] ? normalizeComparator(match[1]) : null,
+  };
+};
+
+/**
+ * Interpreta el texto del valor de referencia como intervalo con límites bajo/alto.
+ * @param text Texto del valor de referencia (ej. "3.5-5.1", "<5", ">40").
+ * @returns El intervalo, o null si el texto no tiene un formato reconocido.
+ */
+export const parseReferenceRange = (text: string | null | undefined): ParsedReferenceRange | null => {
+  if (!text) return null;
+  const trimmed = text.trim();
+
+  const range = RANGE_REGEX.exec(trimmed);
+  if (range) {
+    return { low: toNumber(range[1]), high: toNumber(range[2]) };
+  }
+
+  const bound = BOUND_REGEX.exec(trimmed);
+  if (bound) {
+    const comparator = normalizeComparator(bound[1]);
+    const value = toNumber(bound[2]);
+    return comparator === '<' || comparator === '<=' ? { low: null, high: value } : { low: value, high: null };
+  }
+
+  return null;
+};
+
+/**
+ * Determina el indicador de anormalidad de un resultado.
+ * Se usa el código del laboratorio si es reconocible; si viene vacío, se calcula
+ * comparando el valor numérico con el intervalo de referencia.
+ * @param code Columna "code" del L1.
+ * @param value Resultado numérico ya interpretado.
+ * @param range Intervalo de referencia ya interpretado.
+ * @returns El indicador, o null si no se puede determinar.
+ */
+export const parseAbnormalFlag = (
+  code: string | null | undefined,
+  value: ParsedResultValue | null,
+  range: ParsedReferenceRange | null
+): AbnormalFlag | null => {
+  const trimmedCode = (code || '').trim().toUpperCase();
+  if (trimmedCode !== '') {
+    return FLAG_CODES[trimmedCode] || null;
+  }
+
+  if (!value || !range) return null;
+
+  // Sin código y con comparador: solo se decide cuando el límite deja el resultado inequívoco.
+  // "<5" con mínimo 5 es bajo, pero "<=5" puede ser exactamente 5 (normal): solo el comparador estricto acepta la igualdad.
+  if (value.comparator === '<' || value.comparator === '<=') {
+    if (range.low !== null && (value.value < range.low || (value.comparator === '<' && value.value === range.low))) return 'low';
+    if (range.low === null && range.high !== null && value.value <= range.high) return 'normal';
+    return null;
+  }
+  if (value.comparator === '>' || value.comparator === '>=') {
+    if (range.high !== null && (value.value > range.high || (value.comparator === '>' && value.value === range.high))) return 'high';
+    if (range.high === null && range.low !== null && value.value >= range.low) return 'normal';
+    return null;
+  }
+
+  if (range.low !== null && value.value < range.low) return 'low';
+  if (range.high !== null && value.value > range.high) return 'high';
+  return 'normal';
+};
@@ -0,0 +1,44 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Cifrado de secretos guardados en base de datos (contraseñas de archivos comprimidos).
+// AES-256-GCM con una clave del servidor (FILE_PASSWORD_KEY); la base de datos nunca ve el texto plano.
+// Formato: v1:<iv>:<tag>:<texto cifrado>, cada parte en base64.
+
+const FORMAT_VERSION = 'v1';
+
+// La clave se lee al usarla: dotenv se carga después de importar los módulos
+const getKey = (): Buffer => {
+  const secret = process.env.FILE_PASSWORD_KEY;
+  if (!secret) {
+    throw new Error('FILE_PASSWORD_KEY debe estar definida para cifrar o descifrar contraseñas.');
+  }
+  // Se deriva una clave de 32 bytes para aceptar cualquier longitud de secreto
+  return createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Cifra un secreto.
+ * @param plainText Texto a cifrar.
+ * @returns El secreto cifrado, listo para guardarse.
+ */
+export const encryptSecret = (plainText: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+};
+
+/**
+ * Descifra un secreto cifrado con encryptSecret.
+ * @param stored Valor guardado.
+ * @throws Error si el formato no es válido o la clave no corresponde.
+ */
+export const decryptSecret = (stored: string): string => {
+  const [version, iv, tag, encrypted] = stored.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || encrypted === undefined) {
+    throw new Error('Formato de secreto cifrado no válido.');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+};
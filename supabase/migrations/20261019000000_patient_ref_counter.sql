@@ -0,0 +1,83 @@
+-- Contadores persistentes de referencias de paciente (ref_patient) por centro médico y mes.
+-- Los usa createOrderPreview a través de PatientRefCounterService (reserve_patient_correlatives).
+
+create table if not exists public.patientrefcounter (
+  centre_id uuid not null references public.centremedical (centre_id),
+  year integer not null,
+  month integer not null check (month between 1 and 12),
+  last_value integer not null default 0, -- Último correlativo entregado
+  updated_at timestamptz not null default now(),
+  primary key (centre_id, year, month)
+);
+
+-- Mayor correlativo ya entregado a un centro en un mes, leído de las referencias existentes
+-- (<abreviatura>HWF<mm><aa><correlativo>) de las previsualizaciones y de los pedidos confirmados.
+-- Las referencias generadas antes de existir el contador no se vuelven a entregar.
+create or replace function public.patient_ref_max_correlative(_centre_id uuid, _year integer, _month integer)
+returns integer
+language sql
+stable
+as $$
+  with centre as (
+    select abbreviation || 'HWF' || lpad(_month::text, 2, '0') || right(_year::text, 2) as prefix
+    from public.centremedical
+    where centre_id = _centre_id
+  ),
+  refs as (
+    select ref_patient from public.orderdetailpreview where ref_patient is not null
+    union all
+    select ref_patient from public.orderdetail where ref_patient is not null
+  )
+  select coalesce(max(substring(refs.ref_patient from length(centre.prefix) + 1)::integer), 0)
+  from refs
+  join centre on refs.ref_patient like centre.prefix || '%'
+  where substring(refs.ref_patient from length(centre.prefix) + 1) ~ '^[0-9]+$';
+$$;
+
+-- Reserva _count correlativos consecutivos para un centro y mes y devuelve el último reservado.
+-- La fila se bloquea en el UPDATE (o se crea con INSERT ... ON CONFLICT), así que dos llamadas
+-- simultáneas nunca reciben los mismos números. Un contador nuevo parte del mayor correlativo existente.
+create or replace function public.reserve_patient_correlatives(_centre_id uuid, _year integer, _month integer, _count integer)
+returns integer
+language plpgsql
+as $$
+declare
+  _last integer;
+begin
+  if _count is null or _count < 1 then
+    raise exception 'reserve_patient_correlatives: _count debe ser mayor que 0';
+  end if;
+
+  update public.patientrefcounter
+     set last_value = last_value + _count, updated_at = now()
+   where centre_id = _centre_id and year = _year and month = _month
+  returning last_value into _last;
+
+  if _last is null then
+    insert into public.patientrefcounter as counter (centre_id, year, month, last_value)
+    values (_centre_id, _year, _month, public.patient_ref_max_correlative(_centre_id, _year, _month) + _count)
+    on conflict (centre_id, year, month)
+      do update set last_value = counter.last_value + _count, updated_at = now()
+    returning last_value into _last;
+  end if;
+
+  return _last;
+end;
+$$;
+
+-- Contadores de los meses que ya tienen referencias, para que la primera reserva no coincida con ellas
+insert into public.patientrefcounter (centre_id, year, month, last_value)
+select centre_id, year, month, public.patient_ref_max_correlative(centre_id, year, month)
+from (
+  select distinct "centremedical".centre_id, "orderpreview"."yearNumber" as year, "orderpreview"."monthNumber" as month
+  from public.orderdetailpreview
+  join public.orderpreview on orderpreview.order_id = orderdetailpreview.order_id
+  join public.centremedical on centremedical.name = orderdetailpreview.centre_medical
+  union
+  select distinct "centremedical".centre_id, "order"."yearNumber", "order"."monthNumber"
+  from public.orderdetail
+  join public."order" on "order".order_id = orderdetail.order_id
+  join public.centremedical on centremedical.name = orderdetail.centre_medical
+) as periods
+where year is not null and month is not null
+on conflict (centre_id, year, month) do nothing;
@@ -0,0 +1,22 @@
+-- Reserva de correlativos de varios centros en una sola llamada (createOrderPreview hace una única
+-- consulta por petición, sea cual sea el número de centros).
+-- _counts: {"<centre_id>": <número de correlativos>, ...}. Devuelve el último valor reservado de cada centro.
+-- Los centros se bloquean siempre en el mismo orden para que dos llamadas simultáneas no se interbloqueen.
+create or replace function public.reserve_patient_correlatives_batch(_year integer, _month integer, _counts jsonb)
+returns table (centre_id uuid, last_value integer)
+language plpgsql
+as $$
+declare
+  _entry record;
+begin
+  for _entry in
+    select key::uuid as entry_centre_id, value::integer as entry_count
+    from jsonb_each_text(_counts)
+    order by key::uuid
+  loop
+    centre_id := _entry.entry_centre_id;
+    last_value := public.reserve_patient_correlatives(_entry.entry_centre_id, _year, _month, _entry.entry_count);
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Bucket privado de los archivos originales de resultados (.lab / HL7).
+-- Sustituye al bucket público 'lab-files' de las primeras versiones: los archivos solo se sirven
+-- por el endpoint autenticado o con URLs firmadas. El servidor no arranca si el bucket es público.
+insert into storage.buckets (id, name, public)
+values ('lab-result-files', 'lab-result-files', false)
+on conflict (id) do update set public = false;
@@ -0,0 +1,24 @@
+-- Columnas de la API de contraseñas de archivos: la contraseña se guarda cifrada (password_encrypted)
+-- y la columna antigua en texto plano se vacía al leerla (FilePasswordService.encryptLegacyPassword).
+alter table public.filepassword
+  alter column password drop not null,
+  add column if not exists password_encrypted text,
+  add column if not exists lab_identification text,
+  add column if not exists description text,
+  add column if not exists last_used_at timestamptz,
+  add column if not exists use_count integer not null default 0,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz;
+
+-- Registra que una contraseña de archivo abrió un archivo comprimido (FilePasswordService.markPasswordUsed).
+-- El incremento se hace en la base de datos: dos importaciones simultáneas que usan la misma
+-- contraseña suman cada una su uso, sin leer y reescribir use_count desde el servidor.
+create or replace function public.mark_file_password_used(_filep_id uuid)
+returns void
+language sql
+as $$
+  update public.filepassword
+     set use_count = use_count + 1,
+         last_used_at = now()
+   where filep_id = _filep_id;
+$$;
@@ -0,0 +1,9 @@
+-- Registros L2, L3, L4, L9 y desconocidos de los archivos .lab (parseLabFile).
+alter table public.administrative
+  add column if not exists comment text, -- Líneas L3, unidas por saltos de línea
+  add column if not exists trailer text, -- Texto de cierre L9
+  add column if not exists unparsed_lines text; -- Líneas con tipo de registro desconocido, tal cual
+
+alter table public.result
+  add column if not exists result_text text, -- Texto libre L2 del resultado
+  add column if not exists section text; -- Título de sección L4
@@ -0,0 +1,15 @@
+-- Diagnósticos de parseo de cada archivo de resultados importado (una fila por problema).
+create table if not exists public.labdiagnostic (
+  diagnostic_id uuid primary key default gen_random_uuid(),
+  lab_file_name text not null, -- Nombre del archivo dentro del comprimido
+  file_name text, -- Clave del archivo original en el almacenamiento
+  zip_uploaded text, -- Nombre del archivo subido
+  line integer not null, -- Línea del archivo (empieza en 1)
+  record_type text,
+  field text,
+  severity text not null check (severity in ('info', 'warning', 'error')),
+  message text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists labdiagnostic_file_name_idx on public.labdiagnostic (file_name);
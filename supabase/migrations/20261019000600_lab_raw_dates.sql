@@ -0,0 +1,5 @@
+-- Fechas ddmmyyyy de los archivos .lab: date_of_birth y date_request guardan la fecha ISO
+-- (null si no es una fecha válida) y las columnas _raw el valor original.
+alter table public.administrative
+  add column if not exists date_of_birth_raw text,
+  add column if not exists date_request_raw text;
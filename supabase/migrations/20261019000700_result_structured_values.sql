@@ -0,0 +1,7 @@
+-- Valores estructurados de los resultados, calculados a partir del texto (utils/resultValueParser).
+alter table public.result
+  add column if not exists result_numeric double precision,
+  add column if not exists result_comparator text check (result_comparator in ('<', '<=', '>', '>=')),
+  add column if not exists reference_low double precision,
+  add column if not exists reference_high double precision,
+  add column if not exists abnormal_flag text check (abnormal_flag in ('normal', 'low', 'high', 'critical'));
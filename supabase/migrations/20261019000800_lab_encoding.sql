@@ -0,0 +1,15 @@
+-- Codificación forzada por laboratorio emisor, para los laboratorios cuyos archivos no se detectan
+-- bien (LabEncodingService). Un BOM en el archivo tiene prioridad sobre esta configuración.
+create table if not exists public.labencoding (
+  labencoding_id uuid primary key default gen_random_uuid(),
+  lab_identification text not null, -- Campo 2 del A1 (MSH-4 en HL7)
+  encoding text not null check (encoding in ('utf-8', 'utf-16le', 'utf-16be', 'windows-1252')),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists labencoding_active_lab_idx on public.labencoding (lab_identification) where is_active;
+
+-- Codificación con la que se leyó cada archivo importado
+alter table public.administrative
+  add column if not exists file_encoding text;
@@ -0,0 +1,3 @@
+-- Formato del archivo del que se importó cada registro: 'lab' o 'hl7' (ORU^R01).
+alter table public.administrative
+  add column if not exists source_format text not null default 'lab' check (source_format in ('lab', 'hl7'));
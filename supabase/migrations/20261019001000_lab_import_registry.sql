@@ -0,0 +1,40 @@
+-- Registro de importaciones: una fila por archivo subido (labimport) y una por archivo de resultados
+-- que contenía (labimportfile). Los duplicados se detectan por el SHA-256 del contenido.
+create table if not exists public.labimport (
+  import_id uuid primary key default gen_random_uuid(),
+  archive_name text not null,
+  archive_sha256 text not null,
+  uploaded_by uuid,
+  filep_id uuid references public.filepassword (filep_id), -- Contraseña que abrió el archivo, si estaba protegido
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists labimport_archive_sha256_idx on public.labimport (archive_sha256) where is_active;
+
+create table if not exists public.labimportfile (
+  import_file_id uuid primary key default gen_random_uuid(),
+  import_id uuid not null references public.labimport (import_id),
+  lab_file_name text not null,
+  file_sha256 text not null,
+  storage_key text, -- Clave del archivo original en el almacenamiento
+  -- 'processing' mientras se insertan sus registros; solo 'imported' cuenta como duplicado
+  status text not null check (status in ('processing', 'imported', 'partial', 'rejected', 'error')),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists labimportfile_file_sha256_idx on public.labimportfile (file_sha256) where is_active;
+create index if not exists labimportfile_import_id_idx on public.labimportfile (import_id);
+
+-- Importación de la que proviene cada registro y cada diagnóstico
+alter table public.administrative
+  add column if not exists import_id uuid references public.labimport (import_id);
+
+create index if not exists administrative_import_id_idx on public.administrative (import_id);
+
+alter table public.labdiagnostic
+  add column if not exists import_id uuid references public.labimport (import_id),
+  add column if not exists import_file_id uuid references public.labimportfile (import_file_id) on delete cascade;
+
+create index if not exists labdiagnostic_import_file_id_idx on public.labdiagnostic (import_file_id);
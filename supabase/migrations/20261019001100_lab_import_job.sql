@@ -0,0 +1,27 @@
+-- Cola persistente de importaciones en segundo plano (ImportJobService): los trabajos sobreviven a un reinicio.
+create table if not exists public.labimportjob (
+  job_id uuid primary key default gen_random_uuid(),
+  -- 'rejected': el archivo superó un límite de seguridad (error_status guarda el código HTTP: 413, 400 o 422)
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed', 'rejected')),
+  archive_name text not null,
+  archive_sha256 text not null,
+  archive_storage_key text not null, -- Copia del archivo subido, hasta que el trabajo termina
+  mode text not null default 'lenient' check (mode in ('strict', 'lenient')),
+  invoicedetail_id uuid,
+  uploaded_by uuid,
+  import_id uuid references public.labimport (import_id),
+  files_total integer not null default 0,
+  files_done integer not null default 0,
+  blocks_inserted integer not null default 0,
+  skipped_files jsonb not null default '[]',
+  errors jsonb not null default '[]',
+  result jsonb, -- Resumen de la importación terminada
+  error_message text,
+  error_status integer,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists labimportjob_status_idx on public.labimportjob (status, created_at);
+create index if not exists labimportjob_archive_sha256_idx on public.labimportjob (archive_sha256);
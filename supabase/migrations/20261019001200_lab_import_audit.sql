@@ -0,0 +1,11 @@
+-- Acciones sobre una importación ya terminada: deshacerla (rollback) o volver a procesar sus archivos (reprocess).
+create table if not exists public.labimportaudit (
+  audit_id uuid primary key default gen_random_uuid(),
+  import_id uuid not null references public.labimport (import_id),
+  action text not null check (action in ('rollback', 'reprocess')),
+  performed_by uuid,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists labimportaudit_import_id_idx on public.labimportaudit (import_id);
@@ -0,0 +1,8 @@
+-- Enlace de cada resultado importado con la línea de pedido que lo solicitó (OrderResultLinkService).
+-- 'auto': calculado en cada importación; 'manual': fijado por un usuario y nunca recalculado
+-- (un enlace manual a null marca un resultado desenlazado a mano).
+alter table public.result
+  add column if not exists orderdetail_id uuid references public.orderdetail (orderdetail_id),
+  add column if not exists order_link_source text check (order_link_source in ('auto', 'manual'));
+
+create index if not exists result_orderdetail_id_idx on public.result (orderdetail_id) where orderdetail_id is not null;
@@ -0,0 +1,31 @@
+-- Ciclo de vida de los pedidos y de sus líneas (utils/orderStatus). Cada estado guarda en <estado>_at
+-- cuándo se alcanzó; las líneas facturadas conservan en resulted_at la llegada de su resultado.
+-- Los pedidos anteriores a esta migración ya se enviaron al laboratorio: empiezan como 'sent'.
+alter table public."order"
+  add column if not exists status text
+    check (status in ('draft', 'sent', 'partially_resulted', 'resulted', 'invoiced')),
+  add column if not exists sent_at timestamptz,
+  add column if not exists partially_resulted_at timestamptz,
+  add column if not exists resulted_at timestamptz,
+  add column if not exists invoiced_at timestamptz,
+  add column if not exists status_updated_at timestamptz;
+
+update public."order" set status = 'sent', sent_at = created_at, status_updated_at = now() where status is null;
+
+alter table public."order"
+  alter column status set default 'draft',
+  alter column status set not null;
+
+alter table public.orderdetail
+  add column if not exists status text
+    check (status in ('draft', 'sent', 'resulted', 'invoiced')),
+  add column if not exists sent_at timestamptz,
+  add column if not exists resulted_at timestamptz,
+  add column if not exists invoiced_at timestamptz,
+  add column if not exists status_updated_at timestamptz;
+
+update public.orderdetail set status = 'sent', sent_at = created_at, status_updated_at = now() where status is null;
+
+alter table public.orderdetail
+  alter column status set default 'draft',
+  alter column status set not null;